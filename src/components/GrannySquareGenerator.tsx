@@ -1,458 +1,70 @@
-import React, { useMemo, useState, useRef, useLayoutEffect, forwardRef } from "react";
-
-// ====== Types ======
-// These type definitions describe the data structure for our crochet pattern.
-export type Vec2 = { x: number; y: number };
-export type SideIndex = 0 | 1 | 2 | 3;
-export type AnchorType = 'corner' | 'side-space' | 'center-ring';
-
-export interface RoundGeo {
-  r: number; // Circumradius of the round's bounding square
-  corners: [Vec2, Vec2, Vec2, Vec2]; // Screen coordinates for TL, TR, BR, BL corners
-  center: Vec2;
-}
-
-export type StitchKind = "chain" | "dc"; // Types of stitches
-
-export interface Cluster {
-  id: string;
-  side: SideIndex;
-  centerPos: Vec2;
-  stitches: Stitch[];
-  anchorRef?: AnchorRef; // Reference to where this cluster anchors on the previous round
-}
-
-export interface AnchorRef {
-  roundId: number;
-  side: SideIndex;
-  slotIndex: number;
-  type: AnchorType; // The type of space this cluster is worked into.
-}
-
-export interface Stitch {
-  id: string;
-  kind: StitchKind;
-  pos: Vec2; // Position of the stitch
-}
-
-// An Anchor represents a point on a round where the *next* round can attach.
-export interface Anchor {
-    pos: Vec2;
-    type: AnchorType;
-}
-
-export interface Side {
-  side: SideIndex;
-  clusters: Cluster[];
-  cornerChains: [Stitch, Stitch];
-  anchorsOnThisSide: Anchor[]; // Points for the *next* round to anchor to
-}
+import React, { useMemo, useState, useRef, useEffect, useLayoutEffect, forwardRef } from "react";
+import { type Vec2, type StitchKind, type Round, STITCH_DEFS, CLUSTER_STITCH_KINDS, type ClusterRecipe, DEFAULT_RECIPE } from "../lib/granny/model";
+import { type ColorPalette, colorPalettes, paletteColors, roundColor, type ColorAssignments, NO_COLOR_ASSIGNMENTS, clusterAt, loadUserPalettes, saveUserPalettes, parsePalettes, paletteToJSON, paletteToHex, uniquePaletteName, extractPalette, photoPixels } from "../lib/granny/palettes";
+import { roundCorners, boundsOf, SHAPE_NAMES } from "../lib/granny/geometry";
+import { type MotifType, type MotifOptions, DEFAULT_MOTIF, MOTIF_NAMES, isPolygonMotif, planRounds, buildRounds } from "../lib/granny/rounds";
+import { validateRounds } from "../lib/granny/validation";
+import { type YarnPerStitch, DEFAULT_YARN_PER_STITCH, YARN_TAIL_CM, calibrateYarn, estimateYarn, formatYarnLength } from "../lib/granny/yarn";
+import { type YarnWeight, YARN_WEIGHTS, type GaugeMode, type Gauge, DEFAULT_GAUGE, specSize, gaugeScale, roundsForSize, formatSize } from "../lib/granny/size";
+import { type Colorway, designColorways, type BlanketLayout, resizeBlanket, squareColorway, type BlanketDistribution, matchingNeighbours, distributeColorways, countColorways, blanketYarn } from "../lib/granny/blanket";
+import { type BorderStyle, BORDER_STYLE_NAMES, type BorderOptions, NO_BORDER, planBorder, borderProblem, borderStart, borderDepth, chartBorder } from "../lib/granny/border";
+import { type Terminology, type PatternLanguage, TERMINOLOGY_NAMES, LANGUAGE_NAMES, patternLocale, formatCounts } from "../lib/granny/locale";
+import { collectStitchKinds, buildPattern, stepText, compactRound, renderPatternText } from "../lib/granny/pattern";
+import { type PatternRound, type InstructionStyle, INSTRUCTION_STYLE_NAMES, type PatternBorder } from "../lib/granny/document";
+import { type JoinMethod, JOIN_METHOD_NAMES, type JoinOptions, maxJoinedSides, joinAsYouGoProblem, joinPoints } from "../lib/granny/joining";
+import { type PatternView, viewRounds, drawRound, type ChartOverlays, NO_OVERLAYS, type ChartDrawing, chartHeight, drawChart } from "../lib/granny/chart";
+import { chartSvg } from "../lib/granny/svg";
 
-export interface Round {
-  id: number; // 0-based round index
-  geo: RoundGeo;
-  sides: [Side, Side, Side, Side];
-}
-
-// ====== Color Palettes ======
-const colorPalettes = [
-    { name: "Sunset Glow", colors: ["#8b0000", "#ff6b35", "#f7931e", "#ffdc00", "#fff8dc"] },
-    { name: "Ocean Blues", colors: ["#003366", "#0066cc", "#3399ff", "#66ccff", "#e6f7ff"] },
-    { name: "Forest Greens", colors: ["#1a4d3a", "#2d7d32", "#66bb6a", "#a5d6a7", "#e8f5e8"] },
-    { name: "Classic Vintage", colors: ["#8b4513", "#daa520", "#cd853f", "#f5deb3", "#fff8dc"] },
-    { name: "Purple Dreams", colors: ["#4a148c", "#7b1fa2", "#ab47bc", "#ce93d8", "#f3e5f5"] },
-    { name: "Default", colors: [] } // For the original generative colors
-];
-
-
-// ====== Geometry Helpers ======
-const vecLerp = (a: Vec2, b: Vec2, t: number): Vec2 => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
-
-function squareFromCircumradius(center: Vec2, r: number): [Vec2, Vec2, Vec2, Vec2] {
-  const halfSide = (Math.sqrt(2) * r) / 2;
-  const { x, y } = center;
-  return [
-    { x: x - halfSide, y: y - halfSide }, // Top-Left
-    { x: x + halfSide, y: y - halfSide }, // Top-Right
-    { x: x + halfSide, y: y + halfSide }, // Bottom-Right
-    { x: x - halfSide, y: y + halfSide }, // Bottom-Left
-  ];
-}
-
-function sideEndpoints(corners: [Vec2, Vec2, Vec2, Vec2], side: SideIndex): [Vec2, Vec2] {
-  switch (side) {
-    case 0: return [corners[0], corners[1]]; // Top
-    case 1: return [corners[1], corners[2]]; // Right
-    case 2: return [corners[2], corners[3]]; // Bottom
-    case 3: return [corners[3], corners[0]]; // Left
-  }
-}
-
-function buildRoundGeo(roundId: number, center: Vec2, r: number): RoundGeo {
-  const corners = squareFromCircumradius(center, r);
-  return { r, corners, center };
-}
-
-// ====== Core Compiler ======
-function compileRoundForChartView(prev: Round | null, roundId: number, center: Vec2, r: number, stitchHeight: number, stitchWidth: number): Round {
-    const geo = buildRoundGeo(roundId, center, r);
-
-    if (roundId === 0) {
-        const sides = [0, 1, 2, 3].map(i => {
-          const side = i as SideIndex;
-          return {
-            side,
-            clusters: [],
-            cornerChains: [] as any,
-            anchorsOnThisSide: [{
-                pos: vecLerp(sideEndpoints(geo.corners, side)[0], sideEndpoints(geo.corners, side)[1], 0.5),
-                type: 'center-ring'
-            }],
-          };
-        }) as unknown as [Side, Side, Side, Side];
-        return { id: roundId, geo, sides };
-    }
-
-    const sides = [0, 1, 2, 3].map(i => {
-        const sideIndex = i as SideIndex;
-        const [p0, p1] = sideEndpoints(geo.corners, sideIndex);
-        const numClusters = roundId;
-        const numStitchUnitsPerSide = roundId === 1 ? 4 : (numClusters * 3) + 2;
-        const clusters: Cluster[] = [];
-        const anchorsOnThisSide: Anchor[] = [];
-
-        const cornerT1 = 0.5 / numStitchUnitsPerSide;
-        const cornerT2 = 1 - cornerT1;
-        const cornerChain1Pos = vecLerp(p0, p1, cornerT1);
-        const cornerChain2Pos = vecLerp(p0, p1, cornerT2);
-        
-        const isVerticalSide = sideIndex === 1 || sideIndex === 3;
-        if (isVerticalSide) {
-            cornerChain1Pos.x = p0.x;
-            cornerChain2Pos.x = p0.x;
-        } else {
-            cornerChain1Pos.y = p0.y;
-            cornerChain2Pos.y = p0.y;
-        }
-
-        const cornerChains: [Stitch, Stitch] = [
-            { id: `r${roundId}-s${sideIndex}-corner1`, kind: 'chain', pos: cornerChain1Pos },
-            { id: `r${roundId}-s${sideIndex}-corner2`, kind: 'chain', pos: cornerChain2Pos },
-        ];
-        
-        anchorsOnThisSide.push({ pos: cornerChain1Pos, type: 'corner' });
-
-        for (let j = 0; j < numClusters; j++) {
-            const anchorType = prev?.sides[sideIndex].anchorsOnThisSide[j].type;
-            const anchorRef: AnchorRef | undefined = prev ? {
-                roundId: prev.id,
-                side: sideIndex,
-                slotIndex: j,
-                type: anchorType || 'side-space', // Default to side-space
-            } : undefined;
-
-            let centerPos: Vec2;
-
-            if (prev && anchorRef) {
-                const prevAnchorPos = prev.sides[anchorRef.side].anchorsOnThisSide[anchorRef.slotIndex].pos;
-                if (isVerticalSide) {
-                    centerPos = { x: prevAnchorPos.x + stitchHeight, y: prevAnchorPos.y };
-                } else {
-                    centerPos = { x: prevAnchorPos.x, y: prevAnchorPos.y - stitchHeight };
-                }
-            } else {
-                let clusterCenterT = (j * 3 + 2.5) / numStitchUnitsPerSide;
-                if (roundId === 1) clusterCenterT = 0.5;
-                centerPos = vecLerp(p0, p1, clusterCenterT);
-            }
-            
-            if (isVerticalSide) { centerPos.x = p0.x; } else { centerPos.y = p0.y; }
-
-            const stitchOffset = stitchWidth * 0.8;
-            const individualStitches: Stitch[] = [-1, 0, 1].map(offsetMultiplier => {
-                const pos = isVerticalSide
-                    ? { x: centerPos.x, y: centerPos.y + offsetMultiplier * stitchOffset }
-                    : { x: centerPos.x + offsetMultiplier * stitchOffset, y: centerPos.y };
-                return { id: `r${roundId}-s${sideIndex}-c${j}-dc${offsetMultiplier + 1}`, kind: 'dc', pos };
-            });
-
-            clusters.push({
-                id: `r${roundId}-s${sideIndex}-c${j}`,
-                side: sideIndex,
-                centerPos,
-                stitches: individualStitches,
-                anchorRef,
-            });
-        }
-
-        for (let j = 0; j < clusters.length - 1; j++) {
-            const midPoint = vecLerp(clusters[j].centerPos, clusters[j+1].centerPos, 0.5);
-            anchorsOnThisSide.push({ pos: midPoint, type: 'side-space' });
-        }
-        anchorsOnThisSide.push({ pos: cornerChain2Pos, type: 'corner' });
-
-        return { side: sideIndex, clusters, cornerChains, anchorsOnThisSide };
-    }) as [Side, Side, Side, Side];
-
-    return { id: roundId, geo, sides };
-}
-
-
-// Builds all rounds based on a list of radii.
-export function buildRounds(radii: number[], center: Vec2, stitchHeight: number, stitchWidth: number): Round[] {
-  const rounds: Round[] = [];
-  for (let i = 0; i < radii.length; i++) {
-    const prevRound = i === 0 ? null : rounds[i - 1];
-    const round = compileRoundForChartView(prevRound, i, center, radii[i], stitchHeight, stitchWidth);
-    rounds.push(round);
-  }
-  return rounds;
-}
-
-// ====== Written Pattern Generator ======
-
-// === Helper Functions ===
-function cornerInstruction(roundNum: number, first: boolean = false): string {
-  if (first) {
-    return `Chain 3 (counts as a dc), then work 2 dc, chain 2, and 3 dc all into the same corner space. (This makes the first corner.)`;
-  }
-  return `In the next corner space, work 3 dc, chain 2, 3 dc. (This makes a corner.)`;
-}
-
-function sideInstruction(sideClusters: number): string {
-  if (sideClusters === 0) return "";
-  if (sideClusters === 1) {
-    return `Chain 1. In the next chain-1 space along the side, work 3 dc.`;
-  }
-  return `Along each side: *Chain 1, work 3 dc in the next chain-1 space.* Repeat until you reach the next corner.`;
-}
-
-function roundSummary(roundNum: number): string {
-  if (roundNum === 1) return "You now have 4 groups of 3 dc and 4 corner chain-2 spaces.";
-  if (roundNum === 2) return "You now have 8 groups of 3 dc and 4 corner chain-2 spaces.";
-  if (roundNum === 3) return "You now have 12 groups of 3 dc and 4 corner chain-2 spaces.";
-  return "Each new round adds one more group of 3 dc along each side, while the corners stay the same.";
-}
-
-// === Main Pattern Generator ===
-function generateWrittenPattern(rounds: { id: number }[]): string {
-  if (!rounds || rounds.length === 0) return "No pattern to display.";
-
-  const instructions: string[] = [];
-  instructions.push("Start: Chain 4. Join with a slip stitch to the first chain to form a ring.");
-
-  rounds.forEach(round => {
-    const n = round.id + 1;
-   
-    let roundText = `\nRound ${n}:\n`;
-
-    if (n === 1) {
-      roundText +=
-        "1. Chain 3 (counts as dc), work 2 dc into the ring, then chain 2.\n" +
-        "2. *Work 3 dc into the ring, chain 2.* Repeat 2 more times.\n" +
-        "3. Join with a slip stitch to the top of the beginning chain-3.\n" +
-        "👉 " + roundSummary(n);
-    } else {
-      roundText +=
-        `1. Slip stitch across to the next corner chain-2 space.\n` +
-        `2. ${cornerInstruction(n, true)}\n`;
-
-      if (n >= 3) {
-        roundText += `3. ${sideInstruction(round.id - 1)}\n`;
-        roundText += `4. ${cornerInstruction(n)}\n`;
-        roundText += "5. Repeat sides and corners around until you return to the beginning.\n";
-      } else {
-        // round 2 only has corners, no side spaces yet
-        roundText += `3. ${cornerInstruction(n)}\n`;
-        roundText += "4. Work the same corner group into each remaining corner space.\n";
-      }
+// ====== Canvas Renderer Component ======
+const GrannySquareCanvas = forwardRef(({ onPick, ...chart }: ChartDrawing & { onPick?: (point: Vec2) => void; }, ref) => {
+  const { width, height, rounds, stitchHeight, stitchWidth, showStitches, view, scale, colors, clusterColors, joinPoints, border, borderColor, overlays, legend } = chart;
+  const fullHeight = chartHeight(chart);
 
-      roundText += `6. Join with a slip stitch to the top of the beginning chain-3.\n` +
-                   "👉 " + roundSummary(n);
-    }
+  useLayoutEffect(() => {
+    const canvas = (ref as React.RefObject<HTMLCanvasElement>).current;
+    if (!canvas || !rounds || rounds.length === 0) return;
+    
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = fullHeight * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${fullHeight}px`;
+    ctx.scale(dpr, dpr);
 
-    instructions.push(roundText);
-  });
+    drawChart(ctx, { width, height, rounds, stitchHeight, stitchWidth, showStitches, view, scale, colors, clusterColors, joinPoints, border, borderColor, overlays, legend });
+  }, [width, height, fullHeight, rounds, stitchHeight, stitchWidth, showStitches, view, scale, colors, clusterColors, joinPoints, border, borderColor, overlays, legend, ref]);
 
-  return instructions.join("\n\n");
-}
-/*
-function generateWrittenPattern(rounds: Round[]): string {
-    if (!rounds || rounds.length === 0) return "No pattern to display.";
-    const instructions: string[] = [];
-    instructions.push("Start: Create a magic ring.");
-    rounds.forEach(round => {
-        if (round.id === 0) return; // Skip foundation round data
-        const n = round.id; // The round number is the same as the data ID
-        let roundText = `\nRound ${n}:\n`;
-        if (n === 1) {
-            roundText += "1. Chain 3 (counts as first dc), work 2 dc into the ring, then chain 2.\n" +
-                         "2. *Work 3 dc into the ring, chain 2.* Repeat from * to * 2 more times.\n" +
-                         "3. Join with a slip stitch to the top of the beginning chain-3.";
-        } else {
-            const sideClusters = round.id - 1;
-            roundText += "1. Slip stitch into the next corner ch-2 space.\n" +
-                         "2. Ch 3 (counts as first dc), work (2 dc, ch 2, 3 dc) all in the same corner space.\n" +
-                         `3. *Ch 1, 3 dc in next ch-1 space.* Repeat from * to * ${sideClusters - 1} more time(s) along the side.\n` +
-                         "4. Ch 1, work (3 dc, ch 2, 3 dc) in the next corner space.\n" +
-                         "5. Repeat steps 3 and 4 for the remaining sides.\n" +
-                         "6. Join with a slip stitch to the top of the beginning chain-3.";
-        }
-        instructions.push(roundText);
-    });
-    return instructions.join("\n\n");
-}
-*/
+  // Clicks are handed back in chart coordinates, undoing the centring and scaling above.
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onPick) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onPick({ x: (e.clientX - rect.left - width / 2) / (scale || 1), y: (e.clientY - rect.top - height / 2) / (scale || 1) });
+  };
 
-// ====== Canvas Renderer Component ======
-function drawEllipse(ctx: CanvasRenderingContext2D, stitch: Stitch, rx: number, ry: number, color: string, isVertical: boolean) {
-  ctx.save();
-  ctx.beginPath();
-  ctx.translate(stitch.pos.x, stitch.pos.y);
-  if (isVertical) {
-    ctx.rotate(Math.PI / 2);
-  }
-  ctx.ellipse(0, 0, rx, ry, 0, 0, 2 * Math.PI);
-  ctx.strokeStyle = color;
-  ctx.lineWidth = 1.5;
-  ctx.stroke();
-  ctx.restore();
-}
+  return <canvas ref={ref} onClick={handleClick} className={onPick ? "cursor-crosshair" : undefined} />;
+});
 
-function drawRound(ctx: CanvasRenderingContext2D, { round, rounds, color, stitchHeight, stitchWidth, showStitches }: { round: Round; rounds: Round[]; color: string; stitchHeight: number; stitchWidth: number; showStitches: boolean; }) {
-  const { corners } = round.geo;
-
-  ctx.save();
-  ctx.beginPath();
-  ctx.setLineDash([3, 3]);
-  ctx.strokeStyle = color;
-  ctx.lineWidth = 1;
-  ctx.globalAlpha = 0.6;
-  ctx.moveTo(corners[0].x, corners[0].y);
-  corners.slice(1).forEach((p: Vec2) => ctx.lineTo(p.x, p.y));
-  ctx.closePath();
-  ctx.stroke();
-  ctx.restore();
-
-  if (round.id === 0 ) {
-    const r0ellipseRx = stitchWidth / 4;
-    const r0ellipseRy = stitchHeight / 8;
-    const stitchPositions = corners.map((p1: Vec2, i: number) => vecLerp(p1, corners[(i + 1) % 4], 0.5));
-    ctx.beginPath();
-    ctx.moveTo(stitchPositions[0].x, stitchPositions[0].y);
-    stitchPositions.slice(1).forEach((p: { x: number; y: number; }) => ctx.lineTo(p.x, p.y));
-    ctx.closePath();
-    ctx.strokeStyle = color;
-    ctx.lineWidth = 1.5;
-    ctx.stroke();
-    stitchPositions.forEach((centerPos: any, i: number) => {
-      const isVertical = i === 1 || i === 3;
-      drawEllipse(ctx, { pos: centerPos } as Stitch, r0ellipseRx, r0ellipseRy, color, isVertical);
-    });
-  }
-
-  if (round.id >= 1) {
-    const chartEllipseRx = stitchWidth / 4;
-    const chartEllipseRy = stitchHeight / 8;
-
-    round.sides.forEach(side => {
-      const isVertical = side.side === 1 || side.side === 3;
-      
-      side.cornerChains.forEach(stitch => drawEllipse(ctx, stitch, chartEllipseRx, chartEllipseRy, color, isVertical));
-      
-      side.clusters.forEach(cluster => {
-        if (cluster.anchorRef) {
-          const prevRound = rounds[cluster.anchorRef.roundId];
-          const prevSide = prevRound?.sides[cluster.anchorRef.side];
-          const anchor = prevSide?.anchorsOnThisSide[cluster.anchorRef.slotIndex];
-          
-          if (anchor) {
-            const anchorPos = anchor.pos;
-            const isTheOneTrueStartOfRound = side.side === 1 && (anchor.type === 'corner' || anchor.type === 'center-ring') && cluster.id.endsWith('-c0');
-
-            if (isTheOneTrueStartOfRound) {
-                const leftStitch = cluster.stitches[0];
-                const dx = leftStitch.pos.x - anchorPos.x;
-                const dy = leftStitch.pos.y - anchorPos.y;
-                const angle = Math.atan2(dy, dx);
-                const dist = Math.hypot(dx, dy);
-
-                ctx.save();
-                ctx.translate(anchorPos.x, anchorPos.y);
-                ctx.rotate(angle);
-                const p1_dist = dist * 0.25;
-                const p2_dist = dist * 0.5;
-                const p3_dist = dist * 0.75;
-                drawEllipse(ctx, { pos: { x: p1_dist, y: 0 } } as Stitch, chartEllipseRx * 0.8, chartEllipseRy * 0.8, color, false);
-                drawEllipse(ctx, { pos: { x: p2_dist, y: 0 } } as Stitch, chartEllipseRx * 0.8, chartEllipseRy * 0.8, color, false);
-                drawEllipse(ctx, { pos: { x: p3_dist, y: 0 } } as Stitch, chartEllipseRx * 0.8, chartEllipseRy * 0.8, color, false);
-                ctx.restore();
-
-                cluster.stitches.slice(1).forEach(stitch => {
-                    ctx.save();
-                    ctx.strokeStyle = color;
-                    ctx.lineWidth = 1.5;
-                    ctx.beginPath();
-                    ctx.moveTo(anchorPos.x, anchorPos.y);
-                    ctx.lineTo(stitch.pos.x, stitch.pos.y);
-                    ctx.stroke();
-                    
-                    const dxStitch = stitch.pos.x - anchorPos.x;
-                    const dyStitch = stitch.pos.y - anchorPos.y;
-                    const distStitch = Math.hypot(dxStitch, dyStitch);
-                    const unitVec = { x: dxStitch / distStitch, y: dyStitch / distStitch };
-                    const perpVec = { x: -unitVec.y, y: unitVec.x };
-                    const crossbarPoint = { x: stitch.pos.x - unitVec.x * distStitch * 0.25, y: stitch.pos.y - unitVec.y * distStitch * 0.25 };
-                    const crossbarHalfWidth = stitchWidth / 3;
-                    ctx.beginPath();
-                    ctx.moveTo(crossbarPoint.x - perpVec.x * crossbarHalfWidth, crossbarPoint.y - perpVec.y * crossbarHalfWidth);
-                    ctx.lineTo(crossbarPoint.x + perpVec.x * crossbarHalfWidth, crossbarPoint.y + perpVec.y * crossbarHalfWidth);
-                    ctx.stroke();
-                    ctx.restore();
-                });
-            } else {
-                cluster.stitches.forEach(stitch => {
-                    ctx.save();
-                    ctx.strokeStyle = color;
-                    ctx.lineWidth = 1.5;
-                    ctx.beginPath();
-                    ctx.moveTo(anchorPos.x, anchorPos.y);
-                    ctx.lineTo(stitch.pos.x, stitch.pos.y);
-                    ctx.stroke();
-                    
-                    const dx = stitch.pos.x - anchorPos.x;
-                    const dy = stitch.pos.y - anchorPos.y;
-                    const dist = Math.hypot(dx, dy);
-                    const unitVec = { x: dx / dist, y: dy / dist };
-                    const perpVec = { x: -unitVec.y, y: unitVec.x };
-                    const crossbarPoint = { x: stitch.pos.x - unitVec.x * dist * 0.3, y: stitch.pos.y - unitVec.y * dist * 0.3 };
-                    const crossbarHalfWidth = stitchWidth / 5;
-                    ctx.beginPath();
-                    ctx.moveTo(crossbarPoint.x - perpVec.x * crossbarHalfWidth, crossbarPoint.y - perpVec.y * crossbarHalfWidth);
-                    ctx.lineTo(crossbarPoint.x + perpVec.x * crossbarHalfWidth, crossbarPoint.y + perpVec.y * crossbarHalfWidth);
-                    ctx.stroke();
-                    ctx.restore();
-                });
-            }
-          }
-        }
-        
-        const ellipseRy = showStitches ? chartEllipseRy : 0;
-        cluster.stitches.forEach(stitch => drawEllipse(ctx, stitch, chartEllipseRx, ellipseRy, color, isVertical));
-      });
-    });
-  }
-}
+// Draws the blanket as a grid of the current motif, each square in its own colourway.
+// `motifSize` is the outer round's size in chart units; its longer side is drawn `cellSize` pixels long.
+// A border around the blanket, `borderWidth` chart units deep, is drawn as a frame in its colour.
+const BlanketCanvas = forwardRef<HTMLCanvasElement, { layout: BlanketLayout; colorways: Colorway[]; rounds: Round[]; cellSize: number; motifSize: Vec2; stitchHeight: number; stitchWidth: number; view: PatternView; borderWidth?: number; borderColor?: string; onSquareClick: (index: number) => void; }>(({ layout, colorways, rounds, cellSize, motifSize, stitchHeight, stitchWidth, view, borderWidth = 0, borderColor = 'transparent', onSquareClick }, ref) => {
+  const gap = 2;
+  const scale = cellSize / Math.max(motifSize.x, motifSize.y, 1);
+  const cell = { x: motifSize.x * scale + gap, y: motifSize.y * scale + gap };
+  const frame = borderWidth * scale;
+  const width = layout.cols * cell.x + 2 * frame;
+  const height = layout.rows * cell.y + 2 * frame;
 
-const GrannySquareCanvas = forwardRef(({ width, height, rounds, stitchHeight, stitchWidth, showStitches, scale, selectedPaletteName, repetitionMethod }: { width: number; height: number; rounds: Round[]; stitchHeight: number; stitchWidth: number; showStitches: boolean; scale: number; selectedPaletteName: string; repetitionMethod: string; }, ref) => {
-  
   useLayoutEffect(() => {
     const canvas = (ref as React.RefObject<HTMLCanvasElement>).current;
-    if (!canvas || !rounds || rounds.length === 0) return;
-    
+    if (!canvas || rounds.length === 0 || colorways.length === 0) return;
+
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
-    
+
     const dpr = window.devicePixelRatio || 1;
     canvas.width = width * dpr;
     canvas.height = height * dpr;
@@ -461,51 +73,92 @@ const GrannySquareCanvas = forwardRef(({ width, height, rounds, stitchHeight, st
     ctx.scale(dpr, dpr);
 
     ctx.fillStyle = 'white';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    ctx.save();
-    ctx.translate(width / 2, height / 2);
-
-    if (scale) {
-        ctx.scale(scale, scale);
+    ctx.fillRect(0, 0, width, height);
+    if (frame > 0) {
+      ctx.strokeStyle = borderColor;
+      ctx.lineWidth = frame;
+      ctx.strokeRect(frame / 2, frame / 2, width - frame, height - frame);
     }
 
-    const palette = colorPalettes.find(p => p.name === selectedPaletteName) || colorPalettes.find(p => p.name === "Default");
-
-    rounds.forEach((round) => {
-      let color;
-      if (palette && palette.name !== "Default" && palette.colors.length > 0) {
-          const n = palette.colors.length;
-          if (repetitionMethod === 'alternating' && n > 1) {
-              const period = 2 * (n - 1);
-              const effectiveIndex = round.id % period;
-              const paletteIndex = effectiveIndex < n ? effectiveIndex : period - effectiveIndex;
-              color = palette.colors[paletteIndex];
-          } else { 
-              color = palette.colors[round.id % n];
-          }
-      } else {
-          color = `hsl(${(round.id * 55 + 180) % 360} 70% 40%)`;
+    layout.squares.forEach((square, i) => {
+      const [col, row] = [i % layout.cols, Math.floor(i / layout.cols)];
+      const colorway = squareColorway(square, colorways);
+      if (colorway) {
+        ctx.save();
+        ctx.translate(frame + (col + 0.5) * cell.x, frame + (row + 0.5) * cell.y);
+        ctx.scale(scale, scale);
+        rounds.forEach(round => drawRound(ctx, {
+          round, rounds, color: colorway.roundColors[round.id], clusterColors: colorway.clusterColors, stitchHeight, stitchWidth, showStitches: false, view,
+        }));
+        ctx.restore();
       }
 
-      drawRound(ctx, { round, rounds, color, stitchHeight, stitchWidth, showStitches });
+      if (square.locked) {
+        ctx.font = `${Math.max(10, cellSize / 6)}px sans-serif`;
+        ctx.textBaseline = 'top';
+        ctx.fillText("🔒", frame + col * cell.x + gap, frame + row * cell.y + gap);
+      }
     });
-    
-    ctx.restore();
-  }, [width, height, rounds, stitchHeight, stitchWidth, showStitches, scale, selectedPaletteName, repetitionMethod, ref]);
+  }, [layout, colorways, rounds, cellSize, scale, cell.x, cell.y, frame, borderColor, stitchHeight, stitchWidth, view, width, height, ref]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const col = Math.floor((e.clientX - rect.left - frame) / cell.x);
+    const row = Math.floor((e.clientY - rect.top - frame) / cell.y);
+    if (row >= 0 && row < layout.rows && col >= 0 && col < layout.cols) onSquareClick(row * layout.cols + col);
+  };
 
-  return <canvas ref={ref} />;
+  return <canvas ref={ref} onClick={handleClick} className="cursor-pointer" />;
 });
 
 
 // ====== Main App Component ======
+const MAX_ROUNDS = 8; // Most rounds the slider offers
+const MAX_BORDER_ROUNDS = 4;
+
+// Saves text as a file. The object URL is revoked only after the click has been handled, as some
+// browsers start the download asynchronously and would otherwise lose it.
+const downloadText = (content: string, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url));
+};
+
 const DEFAULTS = {
     N_ROUNDS: 4,
     STITCH_WIDTH: 24,
     STITCH_HEIGHT: 24,
     SHOW_STITCHES: true,
+    VIEW: 'chart' as PatternView,
+    INSTRUCTION_STYLE: 'beginner' as InstructionStyle,
+    LANGUAGE: 'en' as PatternLanguage,
+    TERMINOLOGY: 'us' as Terminology,
     PALETTE_NAME: "Sunset Glow",
     REPETITION_METHOD: "sequential",
+    COLOR_ASSIGNMENTS: NO_COLOR_ASSIGNMENTS,
+    PAINT_GROUPS: false,
+    BRUSH_COLOR: "#ffffff",
+    PHOTO_COLOR_COUNT: 5,
+    RECIPE: DEFAULT_RECIPE,
+    PICOT_EDGE: false,
+    YARN_PER_STITCH: DEFAULT_YARN_PER_STITCH,
+    SQUARE_COUNT: 1,
+    SWATCH: { kind: 'dc' as StitchKind, stitches: 20, length: 200 }, // For calibrating the yarn per stitch
+    GAUGE: DEFAULT_GAUGE,
+    TARGET_SIZE_CM: 30,
+    BLANKET: resizeBlanket({ rows: 0, cols: 0, squares: [] }, 4, 4),
+    BLANKET_CLICK: 'cycle' as 'cycle' | 'lock',
+    BLANKET_DISTRIBUTION: 'random' as BlanketDistribution,
+    BLANKET_SEED: 1,
+    JOIN_METHOD: 'none' as JoinMethod,
+    JOIN_SIDES: 2,
+    BORDER_ROUNDS: [] as BorderStyle[],
+    BORDER_AROUND: 'square' as 'square' | 'blanket',
+    OVERLAYS: NO_OVERLAYS,
+    MOTIF: DEFAULT_MOTIF,
 };
 
 function GrannySquareGenerator() {
@@ -513,42 +166,259 @@ function GrannySquareGenerator() {
   const [stitchWidth, setStitchWidth] = useState(DEFAULTS.STITCH_WIDTH);
   const [stitchHeight, setStitchHeight] = useState(DEFAULTS.STITCH_HEIGHT);
   const [showStitches, setShowStitches] = useState(DEFAULTS.SHOW_STITCHES);
+  const [overlays, setOverlays] = useState<ChartOverlays>(DEFAULTS.OVERLAYS);
+  const [view, setView] = useState<PatternView>(DEFAULTS.VIEW);
+  const [instructionStyle, setInstructionStyle] = useState<InstructionStyle>(DEFAULTS.INSTRUCTION_STYLE);
+  const [language, setLanguage] = useState<PatternLanguage>(DEFAULTS.LANGUAGE);
+  const [terminology, setTerminology] = useState<Terminology>(DEFAULTS.TERMINOLOGY);
   const [selectedPaletteName, setSelectedPaletteName] = useState(DEFAULTS.PALETTE_NAME);
   const [repetitionMethod, setRepetitionMethod] = useState(DEFAULTS.REPETITION_METHOD);
+  const [colorAssignments, setColorAssignments] = useState<ColorAssignments>(DEFAULTS.COLOR_ASSIGNMENTS);
+  const [paintGroups, setPaintGroups] = useState(DEFAULTS.PAINT_GROUPS);
+  const [userPalettes, setUserPalettes] = useState<ColorPalette[] | null>(null); // null until read from local storage
+  const [paletteText, setPaletteText] = useState("");
+  const [paletteMessage, setPaletteMessage] = useState<string | null>(null);
+  const [photoColorCount, setPhotoColorCount] = useState(DEFAULTS.PHOTO_COLOR_COUNT);
+  const [yarnPerStitch, setYarnPerStitch] = useState<YarnPerStitch>(DEFAULTS.YARN_PER_STITCH);
+  const [squareCount, setSquareCount] = useState(DEFAULTS.SQUARE_COUNT);
+  const [gauge, setGauge] = useState<Gauge>(DEFAULTS.GAUGE);
+  const [targetSizeCm, setTargetSizeCm] = useState(DEFAULTS.TARGET_SIZE_CM);
+  const [swatch, setSwatch] = useState(DEFAULTS.SWATCH);
+  const [brushColor, setBrushColor] = useState(DEFAULTS.BRUSH_COLOR);
+  const [blanket, setBlanket] = useState<BlanketLayout>(DEFAULTS.BLANKET);
+  const [blanketClick, setBlanketClick] = useState(DEFAULTS.BLANKET_CLICK);
+  const [distribution, setDistribution] = useState<BlanketDistribution>(DEFAULTS.BLANKET_DISTRIBUTION);
+  const [blanketSeed, setBlanketSeed] = useState(DEFAULTS.BLANKET_SEED);
+  const [joinMethod, setJoinMethod] = useState<JoinMethod>(DEFAULTS.JOIN_METHOD);
+  const [joinSides, setJoinSides] = useState(DEFAULTS.JOIN_SIDES);
+  const [borderRounds, setBorderRounds] = useState<BorderStyle[]>(DEFAULTS.BORDER_ROUNDS);
+  const [borderAround, setBorderAround] = useState(DEFAULTS.BORDER_AROUND);
+  const [borderColor, setBorderColor] = useState<string | null>(null); // null: the colour of the outer round
+  const [recipe, setRecipe] = useState<ClusterRecipe>(DEFAULTS.RECIPE);
+  const [picotEdge, setPicotEdge] = useState(DEFAULTS.PICOT_EDGE);
+  const [motif, setMotif] = useState<MotifOptions>(DEFAULTS.MOTIF);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const blanketCanvasRef = useRef<HTMLCanvasElement>(null);
 
-  const radii = useMemo(() => {
-    const r: number[] = [];
-    if (nRounds > 0) {
-      // Always generate radius for the foundation (round 0)
-      const r0 = stitchWidth / Math.sqrt(2);
-      r.push(r0);
-      // Generate radii for each subsequent stitch round
-      for (let i = 1; i <= nRounds; i++) {
-        r.push(r[i - 1] + 2.5 * stitchHeight);
-      }
+  // Local storage is only there in the browser, so user palettes are read after the first render.
+  useEffect(() => setUserPalettes(loadUserPalettes()), []);
+  useEffect(() => {
+    if (userPalettes && !saveUserPalettes(userPalettes)) {
+      setPaletteMessage("Could not save your palettes in this browser; they will be gone when the page is closed.");
     }
-    return r;
-  }, [nRounds, stitchWidth, stitchHeight]);
+  }, [userPalettes]);
+  const palettes = useMemo(() => [...colorPalettes, ...(userPalettes ?? [])], [userPalettes]);
+  const selectedPalette = palettes.find(p => p.name === selectedPaletteName);
+  const isUserPalette = userPalettes?.some(p => p.name === selectedPaletteName) ?? false;
+
+  // Always plans the foundation ring (round 0) plus one spec per stitch round
+  const roundSpecs = useMemo(() => 
+    planRounds(motif, nRounds, stitchWidth, stitchHeight),
+    [motif, nRounds, stitchWidth, stitchHeight]
+  );
 
   const canvasSize = 400;
   const padding = 20;
 
+  // Odd-sided shapes are not symmetric top to bottom: shift the motif so that
+  // the bounding box of its outer round is centred on the canvas.
+  const outerBounds = useMemo(() => {
+    const outer = roundSpecs[roundSpecs.length - 1];
+    if (outer.type === 'circle') return { min: { x: -outer.r, y: -outer.r }, max: { x: outer.r, y: outer.r } };
+    return boundsOf(roundCorners({ x: 0, y: 0 }, outer));
+  }, [roundSpecs]);
+
+  const motifCenter = useMemo(() => ({
+    x: -(outerBounds.min.x + outerBounds.max.x) / 2,
+    y: -(outerBounds.min.y + outerBounds.max.y) / 2,
+  }), [outerBounds]);
+
+  // A border around the square grows the chart on every side.
+  const chartBorderStyles = borderAround === 'square' ? borderRounds : DEFAULTS.BORDER_ROUNDS;
   const scale = useMemo(() => {
-    if (radii.length === 0) return 1;
-    const lastRadius = radii[radii.length - 1];
-    const patternDimension = Math.sqrt(2) * lastRadius;
+    const patternDimension = Math.max(outerBounds.max.x - outerBounds.min.x, outerBounds.max.y - outerBounds.min.y) + 2 * borderDepth(chartBorderStyles, stitchHeight);
     if (patternDimension <= 0) return 1;
     const availableSpace = canvasSize - padding;
     return availableSpace / patternDimension;
-  }, [radii, canvasSize, padding]);
+  }, [outerBounds, chartBorderStyles, stitchHeight, canvasSize, padding]);
 
   const rounds = useMemo(() => 
-    buildRounds(radii, { x: 0, y: 0 }, stitchHeight, stitchWidth), 
-    [radii, stitchHeight, stitchWidth]
+    buildRounds(roundSpecs, motifCenter, stitchHeight, stitchWidth, recipe, picotEdge), 
+    [roundSpecs, motifCenter, stitchHeight, stitchWidth, recipe, picotEdge]
   );
+  // The view only changes how the rounds are drawn, never the pattern.
+  const drawnRounds = useMemo(() => viewRounds(rounds, view), [rounds, view]);
   
-  const writtenPattern = useMemo(() => generateWrittenPattern(rounds), [rounds]);
+  const issues = useMemo(() => validateRounds(rounds, recipe), [rounds, recipe]);
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+  const locale = useMemo(() => patternLocale(language, terminology), [language, terminology]);
+  // Styles a language has no text for fall back to its first one.
+  const style = locale.styles.includes(instructionStyle) ? instructionStyle : locale.styles[0];
+  // Round colours from the palette, unless picked by hand; the canvas and the pattern both use these.
+  const colors = useMemo(
+    () => rounds.map(round => colorAssignments.rounds[round.id] ?? roundColor(round.id, paletteColors(selectedPaletteName, palettes), repetitionMethod)),
+    [rounds, selectedPaletteName, palettes, repetitionMethod, colorAssignments]
+  );
+  const clusterColors = colorAssignments.clusters;
+  const outerRound = rounds[rounds.length - 1];
+  const joinOptions = useMemo(
+    (): JoinOptions => ({ method: joinMethod, sides: joinSides, blanket: { rows: blanket.rows, cols: blanket.cols } }),
+    [joinMethod, joinSides, blanket.rows, blanket.cols]
+  );
+  const joinProblem = joinMethod === 'join-as-you-go' && outerRound ? joinAsYouGoProblem(outerRound) : null;
+  const drawnOuterRound = drawnRounds[drawnRounds.length - 1];
+  const chartJoinPoints = useMemo(() => drawnOuterRound ? joinPoints(drawnOuterRound, joinOptions) : [], [drawnOuterRound, joinOptions]);
+  const borderOptions = useMemo(
+    (): BorderOptions => ({
+      rounds: borderRounds,
+      color: borderColor ?? undefined,
+      blanket: borderAround === 'blanket' ? { rows: blanket.rows, cols: blanket.cols } : undefined,
+    }),
+    [borderRounds, borderColor, borderAround, blanket.rows, blanket.cols]
+  );
+  const borderIssue = borderProblem(outerRound, borderOptions);
+  const chartBorderRounds = useMemo(() => {
+    if (!outerRound || chartBorderStyles.length === 0 || borderProblem(outerRound, borderOptions)) return [];
+    const start = borderStart(outerRound, NO_BORDER);
+    return chartBorder(outerRound, planBorder(start.edges, start.intoSpace, chartBorderStyles), stitchHeight, stitchWidth);
+  }, [outerRound, chartBorderStyles, borderOptions, stitchHeight, stitchWidth]);
+  const pattern = useMemo(
+    () => buildPattern(rounds, recipe, locale, colors, clusterColors, joinOptions, borderOptions),
+    [rounds, recipe, locale, colors, clusterColors, joinOptions, borderOptions]
+  );
+  // The chart's legend names the stitches drawn on it, in the pattern's terms.
+  const chartLegend = useMemo(
+    () => collectStitchKinds(rounds, chartBorderRounds.map(round => round.style)).map(kind => ({ kind, label: locale.names[kind].abbr, name: locale.names[kind].name })),
+    [rounds, chartBorderRounds, locale]
+  );
+  const [doneSteps, setDoneSteps] = useState<Set<string>>(new Set());
+  useEffect(() => setDoneSteps(new Set()), [rounds, recipe, colors, clusterColors, borderRounds]); // A new pattern starts with a fresh checklist
+  const yarn = useMemo(() => estimateYarn(rounds, yarnPerStitch, colors, clusterColors), [rounds, yarnPerStitch, colors, clusterColors]);
+  const yarnKinds = useMemo(() => collectStitchKinds(rounds), [rounds]);
+  const cmPerUnit = useMemo(
+    () => gaugeScale(gauge, motif, recipe.stitchKind, stitchWidth, stitchHeight),
+    [gauge, motif, recipe.stitchKind, stitchWidth, stitchHeight]
+  );
+  const roundsNeeded = useMemo(
+    () => roundsForSize(targetSizeCm, cmPerUnit, motif, stitchWidth, stitchHeight),
+    [targetSizeCm, cmPerUnit, motif, stitchWidth, stitchHeight]
+  );
+  const colorways = useMemo(() => designColorways(colors, clusterColors), [colors, clusterColors]);
+  const colorwayCounts = useMemo(() => countColorways(blanket, colorways), [blanket, colorways]);
+  const blanketYarnTotals = useMemo(
+    () => blanketYarn(rounds, yarnPerStitch, colorways, colorwayCounts),
+    [rounds, yarnPerStitch, colorways, colorwayCounts]
+  );
+  const blanketMatches = useMemo(() => matchingNeighbours(blanket, colorways), [blanket, colorways]);
+  const motifSize = useMemo(() => specSize(roundSpecs[roundSpecs.length - 1]), [roundSpecs]);
+  const blanketBorderWidth = borderAround === 'blanket' && !borderIssue ? borderDepth(borderRounds, stitchHeight) : 0;
+  const updateGauge = (patch: Partial<Gauge>) => setGauge(current => ({ ...current, ...patch }));
+  const colorLabel = (value: string) => {
+    const id = pattern?.colors.find(color => color.value === value)?.id;
+    return id ? locale.colorName(id) : value;
+  };
+  const abbreviations = useMemo(() => locale.legend(pattern?.stitchKinds ?? [], style), [pattern, locale, style]);
+
+  const updateRecipe = (patch: Partial<ClusterRecipe>) => setRecipe(current => ({ ...current, ...patch }));
+  const updateMotif = (patch: Partial<MotifOptions>) => setMotif(current => ({ ...current, ...patch }));
+
+  const updateSelectedPalette = (update: (palette: ColorPalette) => ColorPalette) =>
+    setUserPalettes(current => (current ?? []).map(p => p.name === selectedPaletteName ? update(p) : p));
+
+  const handleNewPalette = () => {
+    const name = uniquePaletteName("My Palette", palettes);
+    const colors = selectedPalette && selectedPalette.colors.length > 0 ? [...selectedPalette.colors] : ["#ffffff"];
+    setUserPalettes(current => [...(current ?? []), { name, colors }]);
+    setSelectedPaletteName(name);
+  };
+
+  const handleRenamePalette = (value: string) => {
+    if (value.trim() === selectedPaletteName) return;
+    const name = uniquePaletteName(value, palettes);
+    updateSelectedPalette(p => ({ ...p, name }));
+    setSelectedPaletteName(name);
+  };
+
+  const handleDeletePalette = () => {
+    setUserPalettes(current => (current ?? []).filter(p => p.name !== selectedPaletteName));
+    setSelectedPaletteName(DEFAULTS.PALETTE_NAME);
+  };
+
+  const handleImportPalettes = () => {
+    try {
+      const imported = parsePalettes(paletteText);
+      const added: ColorPalette[] = [];
+      imported.forEach(palette => added.push({ ...palette, name: uniquePaletteName(palette.name, [...palettes, ...added]) }));
+      setUserPalettes(current => [...(current ?? []), ...added]);
+      if (added.length > 0) setSelectedPaletteName(added[0].name);
+      setPaletteMessage(`Imported ${added.length} ${added.length === 1 ? "palette" : "palettes"}.`);
+    } catch (error) {
+      setPaletteMessage(`Could not import: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // A photo becomes a new user palette, named after the file.
+  const handlePhoto = async (file: File) => {
+    try {
+      const colors = extractPalette(await photoPixels(file), photoColorCount);
+      if (colors.length === 0) throw new Error("the photo has no visible pixels.");
+      const name = uniquePaletteName(file.name.replace(/\.[^.]+$/, ""), palettes);
+      setUserPalettes(current => [...(current ?? []), { name, colors }]);
+      setSelectedPaletteName(name);
+      setPaletteMessage(`Extracted ${colors.length} colors from ${file.name}.`);
+    } catch (error) {
+      setPaletteMessage(`Could not read the photo: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const moveSelectedPaletteColor = (index: number, offset: number) => updateSelectedPalette(p => {
+    const colors = [...p.colors];
+    [colors[index], colors[index + offset]] = [colors[index + offset], colors[index]];
+    return { ...p, colors };
+  });
+
+  const handleExportPalette = (format: 'json' | 'hex') => {
+    if (!selectedPalette) return;
+    const text = format === 'json' ? paletteToJSON(selectedPalette) : paletteToHex(selectedPalette);
+    setPaletteText(text);
+    navigator.clipboard?.writeText(text).then(
+      () => setPaletteMessage("Copied to the clipboard."),
+      () => setPaletteMessage("Copy the text below to share it."),
+    );
+  };
+
+  const setRoundColor = (roundId: number, color: string) =>
+    setColorAssignments(current => ({ ...current, rounds: { ...current.rounds, [roundId]: color } }));
+
+  // Painting a group sets it to the brush colour; painting it again with the same colour clears it.
+  const handlePick = (point: Vec2) => {
+    const cluster = clusterAt(drawnRounds, point, stitchWidth);
+    if (!cluster) return;
+    setColorAssignments(current => {
+      const { [cluster.id]: previous, ...clusters } = current.clusters;
+      return { ...current, clusters: previous === brushColor ? clusters : { ...clusters, [cluster.id]: brushColor } };
+    });
+  };
+
+  // The chart as drawn on the canvas; the SVG export draws the same.
+  const chart: ChartDrawing = {
+    width: canvasSize,
+    height: canvasSize,
+    rounds: drawnRounds,
+    stitchHeight,
+    stitchWidth,
+    showStitches,
+    view,
+    scale,
+    colors,
+    clusterColors,
+    joinPoints: chartJoinPoints,
+    border: chartBorderRounds,
+    borderColor: borderColor ?? undefined,
+    overlays,
+    legend: chartLegend,
+  };
 
   const handleDownload = () => {
     const canvas = canvasRef.current;
@@ -560,13 +430,120 @@ function GrannySquareGenerator() {
     }
   };
 
+  const handleSvgDownload = () => downloadText(chartSvg(chart), 'image/svg+xml', 'granny-square-pattern.svg');
+
+  const handleBlanketSize = (rows: number, cols: number) =>
+    setBlanket(current => resizeBlanket(current, Math.max(1, Math.min(20, rows || 1)), Math.max(1, Math.min(20, cols || 1))));
+
+  // Clicking a square either moves it on to the next colourway or locks it in place.
+  const handleBlanketSquare = (index: number) => setBlanket(current => ({
+    ...current,
+    squares: current.squares.map((square, i) => i !== index ? square
+      : blanketClick === 'lock' ? { ...square, locked: !square.locked }
+      : colorways.length === 0 ? square
+      : { ...square, colorway: (squareColorway(square, colorways)!.index + 1) % colorways.length }),
+  }));
+
+  const arrangeBlanket = (seed: number) => {
+    setBlanketSeed(seed);
+    setBlanket(current => distributeColorways(current, colorways, distribution, seed));
+  };
+
+  const handleBlanketDownload = () => {
+    const canvas = blanketCanvasRef.current;
+    if (canvas) {
+        const link = document.createElement('a');
+        link.download = 'granny-square-blanket.png';
+        link.href = canvas.toDataURL('image/png');
+        link.click();
+    }
+  };
+
+  const toggleStep = (key: string) => setDoneSteps(current => {
+    const next = new Set(current);
+    if (!next.delete(key)) next.add(key);
+    return next;
+  });
+
+  // One round of the written pattern with a checkbox per step, or per round in the compact style.
+  const roundView = (round: PatternRound, key: string, heading: string, compactHeading: string) => style === 'compact' ? (
+    <label key={key} className={`mt-2 flex items-start gap-2 cursor-pointer ${doneSteps.has(key) ? "line-through text-gray-500" : ""}`}>
+      <input type="checkbox" className="mt-1" checked={doneSteps.has(key)} onChange={() => toggleStep(key)} />
+      <span>
+        {compactHeading} {compactRound(round, locale)} {formatCounts(round.counts, locale)}
+        {round.groupColors && <><br />{locale.groupColors(round.groupColors)}</>}
+      </span>
+    </label>
+  ) : (
+    <section key={key} className="mt-4">
+      <h3 className="font-semibold">{heading}</h3>
+      {round.groupColors && <p>{locale.groupColors(round.groupColors)}</p>}
+      <ol>
+        {round.steps.map((step, i) => {
+          const stepKey = `${key}-${i}`;
+          return (
+            <li key={stepKey}>
+              <label className={`flex items-start gap-2 cursor-pointer ${doneSteps.has(stepKey) ? "line-through text-gray-500" : ""}`}>
+                <input type="checkbox" className="mt-1" checked={doneSteps.has(stepKey)} onChange={() => toggleStep(stepKey)} />
+                <span>{i + 1}. {stepText(step, style, locale)}</span>
+              </label>
+            </li>
+          );
+        })}
+      </ol>
+      <p>{style === 'beginner' && `👉 ${round.summary} `}{formatCounts(round.counts, locale)}</p>
+    </section>
+  );
+
+  const borderView = (border: PatternBorder) => (
+    <section className="mt-4">
+      <h3 className="font-semibold">{locale.borderTitle(border.blanket)}</h3>
+      <p>{border.note}</p>
+      {border.rounds.map(round => roundView(round, `border-${round.number}`, locale.borderHeading(round.number), locale.borderCompactHeading(round.number)))}
+    </section>
+  );
+
+  const handleExport = (format: 'txt' | 'json') => {
+    if (!pattern) return;
+    const content = format === 'json' ? JSON.stringify(pattern, null, 2) : renderPatternText(pattern, style);
+    downloadText(content, format === 'json' ? 'application/json' : 'text/plain', `granny-square-pattern.${format}`);
+  };
+
   const handleReset = () => {
     setNRounds(DEFAULTS.N_ROUNDS);
     setStitchWidth(DEFAULTS.STITCH_WIDTH);
     setStitchHeight(DEFAULTS.STITCH_HEIGHT);
     setShowStitches(DEFAULTS.SHOW_STITCHES);
+    setOverlays(DEFAULTS.OVERLAYS);
+    setView(DEFAULTS.VIEW);
+    setInstructionStyle(DEFAULTS.INSTRUCTION_STYLE);
+    setLanguage(DEFAULTS.LANGUAGE);
+    setTerminology(DEFAULTS.TERMINOLOGY);
     setSelectedPaletteName(DEFAULTS.PALETTE_NAME);
     setRepetitionMethod(DEFAULTS.REPETITION_METHOD);
+    setColorAssignments(DEFAULTS.COLOR_ASSIGNMENTS);
+    setPaintGroups(DEFAULTS.PAINT_GROUPS);
+    setBrushColor(DEFAULTS.BRUSH_COLOR);
+    setPhotoColorCount(DEFAULTS.PHOTO_COLOR_COUNT);
+    setPaletteText("");
+    setPaletteMessage(null);
+    setRecipe(DEFAULTS.RECIPE);
+    setPicotEdge(DEFAULTS.PICOT_EDGE);
+    setYarnPerStitch(DEFAULTS.YARN_PER_STITCH);
+    setSquareCount(DEFAULTS.SQUARE_COUNT);
+    setSwatch(DEFAULTS.SWATCH);
+    setGauge(DEFAULTS.GAUGE);
+    setTargetSizeCm(DEFAULTS.TARGET_SIZE_CM);
+    setBlanket(DEFAULTS.BLANKET);
+    setBlanketClick(DEFAULTS.BLANKET_CLICK);
+    setDistribution(DEFAULTS.BLANKET_DISTRIBUTION);
+    setBlanketSeed(DEFAULTS.BLANKET_SEED);
+    setJoinMethod(DEFAULTS.JOIN_METHOD);
+    setJoinSides(DEFAULTS.JOIN_SIDES);
+    setBorderRounds(DEFAULTS.BORDER_ROUNDS);
+    setBorderAround(DEFAULTS.BORDER_AROUND);
+    setBorderColor(null);
+    setMotif(DEFAULTS.MOTIF);
   };
 
   return (
@@ -620,15 +597,8 @@ function GrannySquareGenerator() {
             <div className="relative bg-white rounded-xl shadow-lg p-4 mb-4">
               <GrannySquareCanvas
                 ref={canvasRef}
-                width={canvasSize}
-                height={canvasSize}
-                rounds={rounds}
-                stitchHeight={stitchHeight}
-                stitchWidth={stitchWidth}
-                showStitches={showStitches}
-                scale={scale}
-                selectedPaletteName={selectedPaletteName}
-                repetitionMethod={repetitionMethod}
+                {...chart}
+                onPick={paintGroups ? handlePick : undefined}
               />
               <button 
                 onClick={handleDownload} 
@@ -639,8 +609,27 @@ function GrannySquareGenerator() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                 </svg>
               </button>
+              <button
+                onClick={handleSvgDownload}
+                className="absolute top-2 right-14 bg-white hover:bg-gray-100 text-blue-700 border border-blue-600 px-2 py-1.5 text-xs font-semibold rounded-lg shadow-md transition-colors"
+                title="Download Chart as SVG"
+              >
+                SVG
+              </button>
             </div>
             
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden mb-3">
+              {([['chart', "Chart View"], ['stitch', "Stitch View"]] as [PatternView, string][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setView(value)}
+                  className={`px-4 py-1 text-sm transition-colors ${view === value ? "bg-blue-600 text-white" : "bg-white text-gray-700 hover:bg-gray-100"}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
             <div className="text-sm text-gray-600 text-center">
               Click the download button to save your pattern as a PNG.
             </div>
@@ -659,6 +648,36 @@ function GrannySquareGenerator() {
           </div>
           
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {motif.motif === 'rectangle' ? (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Width: {Math.max(motif.rectWidth, motif.rectHeight + 1)} groups
+                  </label>
+                  <input 
+                    type="range" 
+                    min={motif.rectHeight + 1} 
+                    max="16" 
+                    value={Math.max(motif.rectWidth, motif.rectHeight + 1)}
+                    onChange={(e) => updateMotif({ rectWidth: Number(e.target.value) })}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Height: {motif.rectHeight} groups ({motif.rectHeight} rounds)
+                  </label>
+                  <input 
+                    type="range" 
+                    min="1" 
+                    max="8" 
+                    value={motif.rectHeight}
+                    onChange={(e) => updateMotif({ rectHeight: Number(e.target.value) })}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                  />
+                </div>
+              </>
+            ) : (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Rounds: {nRounds}
@@ -666,7 +685,7 @@ function GrannySquareGenerator() {
               <input 
                 type="range" 
                 min="1" 
-                max="8" 
+                max={MAX_ROUNDS} 
                 value={nRounds}
                 onChange={(e) => setNRounds(Math.max(1, Number(e.target.value) || 1))}
                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
@@ -676,6 +695,70 @@ function GrannySquareGenerator() {
                 <span>8</span>
               </div>
             </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Motif
+              </label>
+              <select 
+                value={motif.motif} 
+                onChange={e => updateMotif({ motif: e.target.value as MotifType })}
+                className="w-full p-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                {(Object.keys(MOTIF_NAMES) as MotifType[]).map(type => (
+                  <option key={type} value={type}>{MOTIF_NAMES[type]}</option>
+                ))}
+              </select>
+            </div>
+
+            {isPolygonMotif(motif.motif) ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Shape
+                </label>
+                <select 
+                  value={motif.sideCount} 
+                  onChange={e => updateMotif({ sideCount: Number(e.target.value) })}
+                  className="w-full p-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                >
+                  {Object.entries(SHAPE_NAMES).map(([count, name]) => (
+                    <option key={count} value={count}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            ) : motif.motif !== 'rectangle' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {motif.motif === 'flower' ? "Petals" : "Increases per Circle Round"}
+                </label>
+                <select 
+                  value={motif.circleSegments} 
+                  onChange={e => updateMotif({ circleSegments: Number(e.target.value) })}
+                  className="w-full p-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                >
+                  {[6, 8, 12].map(count => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {motif.motif === 'circle-to-square' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Circle Rounds: {motif.circleRounds}
+                </label>
+                <input 
+                  type="range" 
+                  min="1" 
+                  max="4" 
+                  value={motif.circleRounds}
+                  onChange={(e) => updateMotif({ circleRounds: Number(e.target.value) })}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                />
+              </div>
+            )}
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -686,9 +769,18 @@ function GrannySquareGenerator() {
                 onChange={e => setSelectedPaletteName(e.target.value)}
                 className="w-full p-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
               >
-                {colorPalettes.filter(p=>p.name !== "Default").map(p => (
-                  <option key={p.name} value={p.name}>{p.name}</option>
-                ))}
+                <optgroup label="Built-in">
+                  {colorPalettes.filter(p=>p.name !== "Default").map(p => (
+                    <option key={p.name} value={p.name}>{p.name}</option>
+                  ))}
+                </optgroup>
+                {userPalettes && userPalettes.length > 0 && (
+                  <optgroup label="My Palettes">
+                    {userPalettes.map(p => (
+                      <option key={p.name} value={p.name}>{p.name}</option>
+                    ))}
+                  </optgroup>
+                )}
               </select>
             </div>
             
@@ -705,6 +797,75 @@ function GrannySquareGenerator() {
                 <option value="alternating">Alternating</option>
               </select>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Cluster Stitch
+              </label>
+              <select 
+                value={recipe.stitchKind} 
+                onChange={e => updateRecipe({ stitchKind: e.target.value as StitchKind })}
+                className="w-full p-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                {CLUSTER_STITCH_KINDS.map(kind => (
+                  <option key={kind} value={kind}>{STITCH_DEFS[kind].name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-center">
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={picotEdge}
+                  onChange={() => setPicotEdge(!picotEdge)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm font-medium text-gray-700">Picot Edge on Last Round</span>
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Stitches per Cluster: {recipe.stitchesPerCluster}
+              </label>
+              <input 
+                type="range" 
+                min="1" 
+                max="5" 
+                value={recipe.stitchesPerCluster}
+                onChange={(e) => updateRecipe({ stitchesPerCluster: Number(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Corner Chains: ch {recipe.cornerChains}
+              </label>
+              <input 
+                type="range" 
+                min="1" 
+                max="4" 
+                value={recipe.cornerChains}
+                onChange={(e) => updateRecipe({ cornerChains: Number(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Side Chains: ch {recipe.sideChains}
+              </label>
+              <input 
+                type="range" 
+                min="1" 
+                max="3" 
+                value={recipe.sideChains}
+                onChange={(e) => updateRecipe({ sideChains: Number(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+              />
+            </div>
             
             <div className="flex items-center justify-center md:col-span-2 lg:col-span-1 lg:justify-start">
               <label className="flex items-center space-x-3 cursor-pointer">
@@ -717,12 +878,118 @@ function GrannySquareGenerator() {
                 <span className="text-sm font-medium text-gray-700">Show Stitch Details</span>
               </label>
             </div>
+
+            <div className="md:col-span-2 lg:col-span-3 flex flex-wrap items-center gap-4">
+              <span className="text-sm font-medium text-gray-700">Chart Overlays:</span>
+              {([
+                ['legend', "Symbol Legend"],
+                ['roundNumbers', "Round Numbers"],
+                ['direction', "Direction Arrows"],
+                ['joins', "Join Slip Stitches"],
+              ] as [keyof ChartOverlays, string][]).map(([key, label]) => (
+                <label key={key} className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={overlays[key]}
+                    onChange={() => setOverlays(current => ({ ...current, [key]: !current[key] }))}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="text-sm text-gray-700">{label}</span>
+                </label>
+              ))}
+            </div>
           </div>
 
           <div className="mt-6 p-4 bg-white rounded-lg border border-gray-200">
-            <h3 className="text-sm font-medium text-gray-700 mb-2">Current Palette Preview:</h3>
-            <div className="flex space-x-2">
-              {colorPalettes.find(p => p.name === selectedPaletteName)?.colors.map((color, index) => (
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+              <h3 className="text-sm font-medium text-gray-700">Current Palette Preview:</h3>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={handleNewPalette}
+                  className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                >
+                  New Palette
+                </button>
+                <label className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors cursor-pointer">
+                  From Photo
+                  <input
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={e => {
+                      const file = e.target.files?.[0];
+                      if (file) handlePhoto(file);
+                      e.target.value = ""; // Lets the same photo be picked again
+                    }}
+                  />
+                </label>
+                <select
+                  value={photoColorCount}
+                  onChange={e => setPhotoColorCount(Number(e.target.value))}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded-lg bg-white"
+                  title="Colors to take from a photo"
+                >
+                  {[3, 4, 5, 6, 7, 8].map(n => <option key={n} value={n}>{n} colors</option>)}
+                </select>
+                {isUserPalette && (
+                  <button
+                    onClick={handleDeletePalette}
+                    className="px-3 py-1 text-sm bg-red-50 hover:bg-red-100 text-red-700 rounded-lg transition-colors"
+                  >
+                    Delete
+                  </button>
+                )}
+                {(['json', 'hex'] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleExportPalette(format)}
+                    className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                  >
+                    Share as {format === 'json' ? "JSON" : "Hex"}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {isUserPalette && (
+              <input
+                key={selectedPaletteName}
+                type="text"
+                defaultValue={selectedPaletteName}
+                onBlur={e => handleRenamePalette(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                className="w-full md:w-1/2 mb-3 p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                aria-label="Palette name"
+              />
+            )}
+            <div className="flex flex-wrap gap-2">
+              {selectedPalette?.colors.map((color, index) => isUserPalette ? (
+                <div key={index} className="flex flex-col items-center">
+                  <input
+                    type="color"
+                    value={color}
+                    onChange={e => updateSelectedPalette(p => ({ ...p, colors: p.colors.map((c, i) => i === index ? e.target.value : c) }))}
+                    className="w-8 h-8 rounded cursor-pointer"
+                    title={`Color ${index + 1}`}
+                  />
+                  <div className="flex text-xs text-gray-500">
+                    {index > 0 && (
+                      <button onClick={() => moveSelectedPaletteColor(index, -1)} className="px-0.5 hover:text-blue-600" title="Move left">‹</button>
+                    )}
+                    {selectedPalette.colors.length > 1 && (
+                      <button
+                        onClick={() => updateSelectedPalette(p => ({ ...p, colors: p.colors.filter((_, i) => i !== index) }))}
+                        className="px-0.5 hover:text-red-600"
+                        title="Remove color"
+                      >
+                        ×
+                      </button>
+                    )}
+                    {index < selectedPalette.colors.length - 1 && (
+                      <button onClick={() => moveSelectedPaletteColor(index, 1)} className="px-0.5 hover:text-blue-600" title="Move right">›</button>
+                    )}
+                  </div>
+                </div>
+              ) : (
                 <div 
                   key={index}
                   className="w-8 h-8 rounded-full border-2 border-white shadow-md"
@@ -730,10 +997,622 @@ function GrannySquareGenerator() {
                   title={`Color ${index + 1}`}
                 />
               ))}
+              {isUserPalette && (
+                <button
+                  onClick={() => updateSelectedPalette(p => ({ ...p, colors: [...p.colors, p.colors[p.colors.length - 1] ?? "#ffffff"] }))}
+                  className="w-8 h-8 rounded border border-dashed border-gray-400 text-gray-500 hover:bg-gray-100"
+                  title="Add color"
+                >
+                  +
+                </button>
+              )}
+            </div>
+            {!isUserPalette && (
+              <p className="text-xs text-gray-500 mt-2">Built-in palettes can't be changed. Use New Palette to start an editable copy.</p>
+            )}
+            <div className="mt-4">
+              <textarea
+                value={paletteText}
+                onChange={e => setPaletteText(e.target.value)}
+                rows={3}
+                placeholder='Paste a palette to import: JSON like {"name": "Autumn", "colors": ["#8b4513", "#daa520"]} or hex codes like #8b4513, #daa520'
+                className="w-full p-2 text-sm font-mono border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <div className="flex items-center gap-3 mt-2">
+                <button
+                  onClick={handleImportPalettes}
+                  disabled={!paletteText.trim()}
+                  className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+                >
+                  Import
+                </button>
+                {paletteMessage && <span className="text-sm text-gray-600">{paletteMessage}</span>}
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-4 p-4 bg-white rounded-lg border border-gray-200">
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-sm font-medium text-gray-700">Round Colors:</h3>
+              <button
+                onClick={() => setColorAssignments(NO_COLOR_ASSIGNMENTS)}
+                className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+              >
+                Use Palette
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-3">
+              {colors.map((color, roundId) => (
+                <label key={roundId} className="flex flex-col items-center text-xs text-gray-600">
+                  <input
+                    type="color"
+                    value={color}
+                    onChange={e => setRoundColor(roundId, e.target.value)}
+                    className="w-8 h-8 rounded cursor-pointer"
+                  />
+                  {roundId === 0 ? (motif.motif === 'rectangle' ? "Chain" : "Ring") : `R${roundId}`}
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-3 mt-4">
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={paintGroups}
+                  onChange={() => setPaintGroups(!paintGroups)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm font-medium text-gray-700">Paint Groups on the Chart</span>
+              </label>
+              <input
+                type="color"
+                value={brushColor}
+                onChange={e => setBrushColor(e.target.value)}
+                className="w-8 h-8 rounded cursor-pointer"
+                title="Brush color"
+              />
+              {Object.keys(clusterColors).length > 0 && (
+                <button
+                  onClick={() => setColorAssignments(current => ({ ...current, clusters: {} }))}
+                  className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                >
+                  Clear Painted Groups
+                </button>
+              )}
             </div>
+            {paintGroups && (
+              <p className="text-xs text-gray-500 mt-2">
+                Click a group on the chart to work it in the brush color, e.g. for checkerboard or striped sides. Click it again to clear it.
+              </p>
+            )}
           </div>
         </div>
 
+        <details className="bg-gray-50 rounded-xl mb-8 overflow-hidden">
+          <summary className="p-4 cursor-pointer font-medium text-gray-800 hover:bg-gray-100 transition-colors">
+            🧶 Yarn Estimate: {formatYarnLength(yarn.total * squareCount)}{squareCount > 1 ? ` for ${squareCount} squares` : ""}
+          </summary>
+          <div className="p-4 border-t border-gray-200 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Per Round (one square)</h3>
+                <table className="w-full text-sm text-gray-700">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="font-normal">Round</th>
+                      <th className="font-normal">Stitches</th>
+                      <th className="font-normal text-right">Yarn</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {yarn.rounds.map(round => (
+                      <tr key={round.roundId}>
+                        <td>
+                          <span className="flex items-center gap-2">
+                            <span className="inline-block w-3 h-3 rounded-sm border border-gray-300" style={{ backgroundColor: colors[round.roundId] }} />
+                            {round.roundId === 0 ? (motif.motif === 'rectangle' ? "Foundation chain" : "Ring") : `Round ${round.roundId}`}
+                          </span>
+                        </td>
+                        <td>{round.stitches}</td>
+                        <td className="text-right">{formatYarnLength(round.length)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-medium text-gray-700">Per Color</h3>
+                  <label className="text-sm text-gray-700 flex items-center gap-2">
+                    Squares:
+                    <input
+                      type="number"
+                      min="1"
+                      value={squareCount}
+                      onChange={e => setSquareCount(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                      className="w-20 p-1 border border-gray-300 rounded-lg"
+                    />
+                  </label>
+                </div>
+                <table className="w-full text-sm text-gray-700">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="font-normal">Color</th>
+                      <th className="font-normal text-right">1 square</th>
+                      {squareCount > 1 && <th className="font-normal text-right">{squareCount} squares</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {yarn.colors.map(color => (
+                      <tr key={color.color}>
+                        <td>
+                          <span className="flex items-center gap-2">
+                            <span className="inline-block w-3 h-3 rounded-sm border border-gray-300" style={{ backgroundColor: color.color }} />
+                            {colorLabel(color.color)}
+                          </span>
+                        </td>
+                        <td className="text-right">{formatYarnLength(color.length)}</td>
+                        {squareCount > 1 && <td className="text-right">{formatYarnLength(color.length * squareCount)}</td>}
+                      </tr>
+                    ))}
+                    <tr className="font-semibold border-t border-gray-200">
+                      <td>Total</td>
+                      <td className="text-right">{formatYarnLength(yarn.total)}</td>
+                      {squareCount > 1 && <td className="text-right">{formatYarnLength(yarn.total * squareCount)}</td>}
+                    </tr>
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-500 mt-2">Includes a {YARN_TAIL_CM} cm tail at every join and fasten-off.</p>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Yarn per Stitch (cm)</h3>
+              <div className="flex flex-wrap gap-3">
+                {yarnKinds.map(kind => (
+                  <label key={kind} className="flex flex-col text-xs text-gray-600">
+                    {STITCH_DEFS[kind].abbr}
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={Number(yarnPerStitch[kind].toFixed(2))}
+                      onChange={e => setYarnPerStitch(current => ({ ...current, [kind]: Math.max(0, Number(e.target.value)) }))}
+                      className="w-20 p-1 text-sm border border-gray-300 rounded-lg"
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mt-3 text-sm text-gray-700">
+                <span>Calibrate from a swatch:</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={swatch.stitches}
+                  onChange={e => setSwatch(current => ({ ...current, stitches: Number(e.target.value) }))}
+                  className="w-16 p-1 border border-gray-300 rounded-lg"
+                />
+                <select
+                  value={swatch.kind}
+                  onChange={e => setSwatch(current => ({ ...current, kind: e.target.value as StitchKind }))}
+                  className="p-1 border border-gray-300 rounded-lg bg-white"
+                >
+                  {CLUSTER_STITCH_KINDS.map(kind => <option key={kind} value={kind}>{STITCH_DEFS[kind].abbr}</option>)}
+                </select>
+                <span>used</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={swatch.length}
+                  onChange={e => setSwatch(current => ({ ...current, length: Number(e.target.value) }))}
+                  className="w-20 p-1 border border-gray-300 rounded-lg"
+                />
+                <span>cm of yarn</span>
+                <button
+                  onClick={() => setYarnPerStitch(calibrateYarn(DEFAULT_YARN_PER_STITCH, swatch.kind, swatch.stitches, swatch.length))}
+                  className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                >
+                  Calibrate
+                </button>
+                <button
+                  onClick={() => setYarnPerStitch(DEFAULT_YARN_PER_STITCH)}
+                  className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                >
+                  Worsted Defaults
+                </button>
+              </div>
+            </div>
+          </div>
+        </details>
+
+        <details className="bg-gray-50 rounded-xl mb-8 overflow-hidden">
+          <summary className="p-4 cursor-pointer font-medium text-gray-800 hover:bg-gray-100 transition-colors">
+            📏 Finished Size: {formatSize(specSize(roundSpecs[roundSpecs.length - 1]), cmPerUnit)}
+          </summary>
+          <div className="p-4 border-t border-gray-200 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Gauge</label>
+                  <select
+                    value={gauge.mode}
+                    onChange={e => updateGauge({ mode: e.target.value as GaugeMode })}
+                    className="w-full p-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  >
+                    <option value="yarn">Yarn weight and hook</option>
+                    <option value="stitch">Measured stitch height</option>
+                    <option value="swatch">Measured sample motif</option>
+                  </select>
+                </div>
+                {gauge.mode === 'yarn' && (
+                  <div className="flex flex-wrap gap-3 text-sm text-gray-700">
+                    <select
+                      value={gauge.yarnWeight}
+                      onChange={e => {
+                        const yarnWeight = e.target.value as YarnWeight;
+                        updateGauge({ yarnWeight, hookMm: YARN_WEIGHTS[yarnWeight].hookMm });
+                      }}
+                      className="p-2 border border-gray-300 rounded-lg bg-white"
+                    >
+                      {(Object.keys(YARN_WEIGHTS) as YarnWeight[]).map(weight => (
+                        <option key={weight} value={weight}>{YARN_WEIGHTS[weight].name}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center gap-2">
+                      Hook
+                      <input
+                        type="number"
+                        min="1"
+                        step="0.25"
+                        value={gauge.hookMm}
+                        onChange={e => updateGauge({ hookMm: Math.max(0.5, Number(e.target.value)) })}
+                        className="w-20 p-1 border border-gray-300 rounded-lg"
+                      />
+                      mm
+                    </label>
+                  </div>
+                )}
+                {gauge.mode === 'stitch' && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    One {STITCH_DEFS[recipe.stitchKind].abbr} is
+                    <input
+                      type="number"
+                      min="0.1"
+                      step="0.1"
+                      value={gauge.stitchHeightCm}
+                      onChange={e => updateGauge({ stitchHeightCm: Math.max(0.1, Number(e.target.value)) })}
+                      className="w-20 p-1 border border-gray-300 rounded-lg"
+                    />
+                    cm tall
+                  </label>
+                )}
+                {gauge.mode === 'swatch' && (
+                  <label className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                    After
+                    <input
+                      type="number"
+                      min="1"
+                      value={gauge.swatchRounds}
+                      onChange={e => updateGauge({ swatchRounds: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+                      className="w-16 p-1 border border-gray-300 rounded-lg"
+                    />
+                    rounds my motif measures
+                    <input
+                      type="number"
+                      min="0.5"
+                      step="0.5"
+                      value={gauge.swatchSizeCm}
+                      onChange={e => updateGauge({ swatchSizeCm: Math.max(0.5, Number(e.target.value)) })}
+                      className="w-20 p-1 border border-gray-300 rounded-lg"
+                    />
+                    cm across
+                  </label>
+                )}
+                <div className="pt-2 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    Target size
+                    <input
+                      type="number"
+                      min="1"
+                      value={targetSizeCm}
+                      onChange={e => setTargetSizeCm(Math.max(1, Number(e.target.value)))}
+                      className="w-20 p-1 border border-gray-300 rounded-lg"
+                    />
+                    cm ({(targetSizeCm / 2.54).toFixed(1)} in)
+                  </label>
+                  <p className="mt-2">
+                    {roundsNeeded === null
+                      ? "More than 60 rounds needed at this gauge."
+                      : `${roundsNeeded} ${roundsNeeded === 1 ? "round" : "rounds"} reach ${targetSizeCm} cm across.`}
+                    {roundsNeeded !== null && roundsNeeded <= MAX_ROUNDS && motif.motif !== 'rectangle' && roundsNeeded !== nRounds && (
+                      <button
+                        onClick={() => setNRounds(roundsNeeded)}
+                        className="ml-2 px-2 py-0.5 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors"
+                      >
+                        Use {roundsNeeded} rounds
+                      </button>
+                    )}
+                  </p>
+                </div>
+              </div>
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Size after Each Round</h3>
+                <table className="w-full text-sm text-gray-700">
+                  <tbody>
+                    {roundSpecs.slice(1).map((spec, i) => (
+                      <tr key={i}>
+                        <td>Round {i + 1}</td>
+                        <td className="text-right">{formatSize(specSize(spec), cmPerUnit)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </details>
+
+        <details className="bg-gray-50 rounded-xl mb-8 overflow-hidden">
+          <summary className="p-4 cursor-pointer font-medium text-gray-800 hover:bg-gray-100 transition-colors">
+            🛏️ Blanket Planner: {blanket.rows} × {blanket.cols} squares, {formatSize({ x: motifSize.x * blanket.cols + 2 * blanketBorderWidth, y: motifSize.y * blanket.rows + 2 * blanketBorderWidth }, cmPerUnit)}
+          </summary>
+          <div className="p-4 border-t border-gray-200 space-y-6">
+            <div className="flex flex-wrap items-end gap-4">
+              <label className="text-sm text-gray-700 flex items-center gap-2">
+                Rows:
+                <input
+                  type="number"
+                  min="1"
+                  max="20"
+                  value={blanket.rows}
+                  onChange={e => handleBlanketSize(Math.floor(Number(e.target.value)), blanket.cols)}
+                  className="w-16 p-1 border border-gray-300 rounded-lg"
+                />
+              </label>
+              <label className="text-sm text-gray-700 flex items-center gap-2">
+                Columns:
+                <input
+                  type="number"
+                  min="1"
+                  max="20"
+                  value={blanket.cols}
+                  onChange={e => handleBlanketSize(blanket.rows, Math.floor(Number(e.target.value)))}
+                  className="w-16 p-1 border border-gray-300 rounded-lg"
+                />
+              </label>
+              <label className="text-sm text-gray-700 flex items-center gap-2">
+                Clicking a square:
+                <select
+                  value={blanketClick}
+                  onChange={e => setBlanketClick(e.target.value as 'cycle' | 'lock')}
+                  className="p-1 border border-gray-300 rounded-lg bg-white"
+                >
+                  <option value="cycle">Next colorway</option>
+                  <option value="lock">Lock / unlock</option>
+                </select>
+              </label>
+            </div>
+            <div className="flex flex-wrap items-end gap-4">
+              <label className="text-sm text-gray-700 flex items-center gap-2">
+                Arrangement:
+                <select
+                  value={distribution}
+                  onChange={e => setDistribution(e.target.value as BlanketDistribution)}
+                  className="p-1 border border-gray-300 rounded-lg bg-white"
+                >
+                  <option value="random">Random, no matching neighbors</option>
+                  <option value="gradient">Gradient</option>
+                  <option value="diagonal">Diagonal stripes</option>
+                </select>
+              </label>
+              <label className="text-sm text-gray-700 flex items-center gap-2">
+                Seed:
+                <input
+                  type="number"
+                  min="0"
+                  value={blanketSeed}
+                  onChange={e => setBlanketSeed(Math.max(0, Math.floor(Number(e.target.value))) || 0)}
+                  className="w-28 p-1 border border-gray-300 rounded-lg"
+                />
+              </label>
+              <button
+                onClick={() => arrangeBlanket(blanketSeed)}
+                className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+              >
+                Arrange
+              </button>
+              <button
+                onClick={() => arrangeBlanket(Math.floor(Math.random() * 100000))}
+                className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+              >
+                🔀 Shuffle
+              </button>
+              <button
+                onClick={handleBlanketDownload}
+                className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+              >
+                💾 Download Layout
+              </button>
+            </div>
+            <div className="flex flex-wrap items-end gap-4">
+              <label className="text-sm text-gray-700 flex items-center gap-2">
+                Joining:
+                <select
+                  value={joinMethod}
+                  onChange={e => setJoinMethod(e.target.value as JoinMethod)}
+                  className="p-1 border border-gray-300 rounded-lg bg-white"
+                >
+                  {(Object.keys(JOIN_METHOD_NAMES) as JoinMethod[]).map(value => (
+                    <option key={value} value={value}>{JOIN_METHOD_NAMES[value]}</option>
+                  ))}
+                </select>
+              </label>
+              {joinMethod !== 'none' && outerRound && (
+                <label className="text-sm text-gray-700 flex items-center gap-2">
+                  Sides joined to finished squares:
+                  <select
+                    value={Math.min(joinSides, maxJoinedSides(outerRound, joinMethod))}
+                    onChange={e => setJoinSides(Number(e.target.value))}
+                    className="p-1 border border-gray-300 rounded-lg bg-white"
+                  >
+                    {Array.from({ length: maxJoinedSides(outerRound, joinMethod) }, (_, i) => i + 1).map(value => (
+                      <option key={value} value={value}>{value}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+            {joinProblem && <p className="text-sm text-amber-800">{joinProblem}</p>}
+            {joinMethod !== 'none' && !joinProblem && (
+              <p className="text-xs text-gray-500">The chart marks the join points in red, and the written pattern ends with the joining instructions.</p>
+            )}
+            <p className="text-xs text-gray-500">
+              {blanketMatches === 0
+                ? "No two neighboring squares share an outer color."
+                : `${blanketMatches} ${blanketMatches === 1 ? "pair" : "pairs"} of neighboring squares share an outer color.`}
+              {" "}The same seed always gives the same arrangement.
+            </p>
+            <div className="overflow-x-auto">
+              <BlanketCanvas
+                ref={blanketCanvasRef}
+                layout={blanket}
+                colorways={colorways}
+                rounds={drawnRounds}
+                cellSize={Math.max(40, Math.min(100, 480 / Math.max(blanket.rows, blanket.cols)))}
+                motifSize={motifSize}
+                stitchHeight={stitchHeight}
+                stitchWidth={stitchWidth}
+                view={view}
+                borderWidth={blanketBorderWidth}
+                borderColor={borderColor ?? colors[colors.length - 1]}
+                onSquareClick={handleBlanketSquare}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Squares per Colorway</h3>
+                <table className="w-full text-sm text-gray-700">
+                  <tbody>
+                    {colorways.map((colorway, i) => (
+                      <tr key={colorway.index}>
+                        <td>
+                          <span className="flex items-center gap-1">
+                            {[...new Set(colorway.roundColors.slice(1))].map(color => (
+                              <span key={color} className="inline-block w-3 h-3 rounded-sm border border-gray-300" style={{ backgroundColor: color }} />
+                            ))}
+                            <span className="ml-1">Colorway {colorway.index + 1}</span>
+                          </span>
+                        </td>
+                        <td className="text-right">{colorwayCounts[i]}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Yarn for the Blanket</h3>
+                <table className="w-full text-sm text-gray-700">
+                  <tbody>
+                    {blanketYarnTotals.colors.map(color => (
+                      <tr key={color.color}>
+                        <td>
+                          <span className="flex items-center gap-2">
+                            <span className="inline-block w-3 h-3 rounded-sm border border-gray-300" style={{ backgroundColor: color.color }} />
+                            {colorLabel(color.color)}
+                          </span>
+                        </td>
+                        <td className="text-right">{formatYarnLength(color.length)}</td>
+                      </tr>
+                    ))}
+                    <tr className="font-semibold border-t border-gray-200">
+                      <td>Total</td>
+                      <td className="text-right">{formatYarnLength(blanketYarnTotals.total)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-500 mt-2">Squares only; joining and borders are not included.</p>
+              </div>
+            </div>
+          </div>
+        </details>
+
+        <details className="bg-gray-50 rounded-xl mb-8 overflow-hidden">
+          <summary className="p-4 cursor-pointer font-medium text-gray-800 hover:bg-gray-100 transition-colors">
+            🖼️ Border: {borderRounds.length === 0 ? "none" : `${borderRounds.length} ${borderRounds.length === 1 ? "round" : "rounds"} around ${borderAround === 'blanket' ? "the blanket" : "the square"}`}
+          </summary>
+          <div className="p-4 border-t border-gray-200 space-y-4">
+            {borderRounds.map((borderStyle, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <label className="text-sm text-gray-700 flex items-center gap-2">
+                  Round {i + 1}:
+                  <select
+                    value={borderStyle}
+                    onChange={e => setBorderRounds(current => current.map((other, j) => j === i ? e.target.value as BorderStyle : other))}
+                    className="p-1 border border-gray-300 rounded-lg bg-white"
+                  >
+                    {(Object.keys(BORDER_STYLE_NAMES) as BorderStyle[]).map(value => (
+                      <option key={value} value={value}>{BORDER_STYLE_NAMES[value]}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  onClick={() => setBorderRounds(current => current.filter((_, j) => j !== i))}
+                  className="px-2 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                  title="Remove this round"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <div className="flex flex-wrap items-center gap-4">
+              {borderRounds.length < MAX_BORDER_ROUNDS && (
+                <button
+                  onClick={() => setBorderRounds(current => [...current, current.length === 0 ? 'sc' : current[current.length - 1]])}
+                  className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                >
+                  + Add Border Round
+                </button>
+              )}
+              <label className="text-sm text-gray-700 flex items-center gap-2">
+                Around:
+                <select
+                  value={borderAround}
+                  onChange={e => setBorderAround(e.target.value as 'square' | 'blanket')}
+                  className="p-1 border border-gray-300 rounded-lg bg-white"
+                >
+                  <option value="square">Each square</option>
+                  <option value="blanket">The blanket ({blanket.rows} × {blanket.cols} squares)</option>
+                </select>
+              </label>
+              <label className="text-sm text-gray-700 flex items-center gap-2">
+                <input
+                  type="color"
+                  value={borderColor ?? colors[colors.length - 1]}
+                  onChange={e => setBorderColor(e.target.value)}
+                  className="w-8 h-8 rounded cursor-pointer"
+                />
+                Color
+              </label>
+              {borderColor !== null && (
+                <button
+                  onClick={() => setBorderColor(null)}
+                  className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                >
+                  Use Outer Round Color
+                </button>
+              )}
+            </div>
+            {borderIssue && <p className="text-sm text-amber-800">{borderIssue}</p>}
+            {borderRounds.length > 0 && !borderIssue && (
+              <p className="text-xs text-gray-500">
+                {borderAround === 'blanket'
+                  ? "The blanket layout shows the border as a frame, and the written pattern ends with it, counted along the whole edge of the joined blanket."
+                  : "The chart shows the border around the square, and the written pattern gives its stitch counts for every side."}
+              </p>
+            )}
+          </div>
+        </details>
+
         <details className="bg-gray-50 rounded-xl mb-8 overflow-hidden">
           <summary className="p-4 cursor-pointer font-medium text-gray-800 hover:bg-gray-100 transition-colors">
             ⚙️ Advanced Settings
@@ -771,18 +1650,123 @@ function GrannySquareGenerator() {
         </details>
 
         <div className="bg-white border border-gray-200 rounded-xl p-6">
-          <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center">
-            📋 Written Pattern Instructions
-          </h2>
-          <div className="bg-gray-900 text-gray-100 p-4 rounded-lg font-mono text-sm leading-relaxed whitespace-pre-wrap max-h-64 overflow-y-auto">
-            {writtenPattern}
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h2 className="text-xl font-semibold text-gray-800 flex items-center">
+              📋 Written Pattern Instructions
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as PatternLanguage)}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {(Object.keys(LANGUAGE_NAMES) as PatternLanguage[]).map(value => (
+                  <option key={value} value={value}>{LANGUAGE_NAMES[value]}</option>
+                ))}
+              </select>
+              <select
+                value={terminology}
+                onChange={(e) => setTerminology(e.target.value as Terminology)}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {(Object.keys(TERMINOLOGY_NAMES) as Terminology[]).map(value => (
+                  <option key={value} value={value}>{TERMINOLOGY_NAMES[value]}</option>
+                ))}
+              </select>
+              <select
+                value={style}
+                onChange={(e) => setInstructionStyle(e.target.value as InstructionStyle)}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {locale.styles.map(value => (
+                  <option key={value} value={value}>{INSTRUCTION_STYLE_NAMES[value]}</option>
+                ))}
+              </select>
+              {(['txt', 'json'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                >
+                  Export .{format}
+                </button>
+              ))}
+            </div>
+          </div>
+          {errors.length > 0 && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-800 font-semibold">
+                This configuration can't be crocheted as charted:
+              </p>
+              <ul className="text-sm text-red-800 mt-1 list-disc list-inside">
+                {errors.map((issue, i) => <li key={i}>{issue.roundId !== undefined && `Round ${issue.roundId}: `}{issue.message}</li>)}
+              </ul>
+            </div>
+          )}
+          {warnings.length > 0 && (
+            <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="text-sm text-amber-800 font-semibold">
+                Check before you start:
+              </p>
+              <ul className="text-sm text-amber-800 mt-1 list-disc list-inside">
+                {warnings.map((issue, i) => <li key={i}>{issue.roundId !== undefined && `Round ${issue.roundId}: `}{issue.message}</li>)}
+              </ul>
+            </div>
+          )}
+          <div className="bg-gray-900 text-gray-100 p-4 rounded-lg font-mono text-sm leading-relaxed max-h-64 overflow-y-auto">
+            {pattern ? (
+              <>
+                <p className="font-semibold">{pattern.title}</p>
+                {pattern.colors.length > 0 && (
+                  <div className="mt-2">
+                    <p>{locale.materialsTitle}</p>
+                    <ul>
+                      {pattern.colors.map(color => (
+                        <li key={color.id} className="flex items-center gap-2">
+                          <span className="inline-block w-3 h-3 rounded-sm border border-gray-500" style={{ backgroundColor: color.value }} />
+                          {locale.materials(color, pattern.startsFrom)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <p className="mt-2">{locale.start(stepText(pattern.start, style, locale))}</p>
+                {pattern.rounds.map(round => roundView(round, `${round.number}`, locale.roundHeading(round.number, round.label), locale.compactHeading(round.number)))}
+                {pattern.border && !pattern.border.blanket && borderView(pattern.border)}
+                {pattern.joining && (
+                  <section className="mt-4">
+                    <h3 className="font-semibold">{locale.joiningTitle(pattern.joining.method)}</h3>
+                    <p>{pattern.joining.note}</p>
+                    {style === 'compact' ? (
+                      <p>{locale.list(pattern.joining.steps.map(step => step.short))}{locale.fullStop}</p>
+                    ) : (
+                      <ol>
+                        {pattern.joining.steps.map((step, i) => {
+                          const key = `join-${i}`;
+                          return (
+                            <li key={key}>
+                              <label className={`flex items-start gap-2 cursor-pointer ${doneSteps.has(key) ? "line-through text-gray-500" : ""}`}>
+                                <input type="checkbox" className="mt-1" checked={doneSteps.has(key)} onChange={() => toggleStep(key)} />
+                                <span>{i + 1}. {stepText(step, style, locale)}</span>
+                              </label>
+                            </li>
+                          );
+                        })}
+                      </ol>
+                    )}
+                    {pattern.joining.counts && <p>{pattern.joining.counts}</p>}
+                  </section>
+                )}
+                {pattern.border?.blanket && borderView(pattern.border)}
+              </>
+            ) : "No pattern to display."}
           </div>
           <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
             <p className="text-sm text-blue-800">
-              <strong>Note:</strong> The visual diagram is a schematic representation. The written instructions follow the standard method for a classic granny square.
+              <strong>{locale.noteTitle}:</strong> {locale.note}
             </p>
             <p className="text-sm text-blue-800 mt-1">
-              <strong>Abbreviations:</strong> Ch = Chain, DC = Double Crochet, Sl st = Slip Stitch
+              <strong>{locale.legendTitle}:</strong> {abbreviations}
             </p>
           </div>
         </div>
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RECIPE } from "./model";
+import { DEFAULT_MOTIF, buildRounds, planRounds } from "./rounds";
+import { DEFAULT_YARN_PER_STITCH, estimateYarn } from "./yarn";
+import { type BlanketDistribution, type BlanketLayout, blanketYarn, countColorways, designColorways, distributeColorways, matchingNeighbours, resizeBlanket, seededRandom } from "./blanket";
+
+const colorways = designColorways(["#8b0000", "#ff6b35", "#f7931e", "#ffdc00"]);
+const blanket = (rows: number, cols: number): BlanketLayout => resizeBlanket({ rows: 0, cols: 0, squares: [] }, rows, cols);
+const take = (random: () => number, n: number) => Array.from({ length: n }, random);
+
+describe("designColorways", () => {
+  it("shifts every colour of the design along its list of colours", () => {
+    expect(designColorways(["a", "b", "a"], { g1: "c" })).toEqual([
+      { index: 0, roundColors: ["a", "b", "a"], clusterColors: { g1: "c" } },
+      { index: 1, roundColors: ["b", "c", "b"], clusterColors: { g1: "a" } },
+      { index: 2, roundColors: ["c", "a", "c"], clusterColors: { g1: "b" } },
+    ]);
+  });
+});
+
+describe("resizeBlanket", () => {
+  it("keeps the squares that still fit and staggers the new ones", () => {
+    const layout = blanket(2, 2);
+    layout.squares[1] = { colorway: 3, locked: true };
+    const resized = resizeBlanket(layout, 3, 3);
+    expect(resized.squares).toHaveLength(9);
+    expect(resized.squares[1]).toEqual({ colorway: 3, locked: true });
+    expect(resized.squares.map(square => square.colorway)).toEqual([0, 3, 2, 1, 2, 3, 2, 3, 4]);
+  });
+});
+
+describe("blanketYarn", () => {
+  const rounds = buildRounds(planRounds(DEFAULT_MOTIF, 3, 24, 24), { x: 0, y: 0 }, 24, 24, DEFAULT_RECIPE, false);
+
+  it("multiplies one square's yarn by the number of squares", () => {
+    const square = estimateYarn(rounds, DEFAULT_YARN_PER_STITCH, colorways[0].roundColors);
+    expect(blanketYarn(rounds, DEFAULT_YARN_PER_STITCH, colorways, [12, 0, 0, 0]).total).toBeCloseTo(12 * square.total);
+  });
+
+  it("adds up the yarn of every colourway in the blanket", () => {
+    const layout = blanket(4, 5);
+    const counts = countColorways(layout, colorways);
+    expect(counts).toEqual([5, 5, 5, 5]);
+    const squares = colorways.map(colorway => estimateYarn(rounds, DEFAULT_YARN_PER_STITCH, colorway.roundColors).total);
+    const yarn = blanketYarn(rounds, DEFAULT_YARN_PER_STITCH, colorways, counts);
+    expect(yarn.total).toBeCloseTo(squares.reduce((sum, total, i) => sum + total * counts[i], 0));
+    expect(yarn.colors.map(color => color.color)).toEqual(["#8b0000", "#ff6b35", "#f7931e", "#ffdc00"]);
+  });
+});
+
+describe("seededRandom", () => {
+  it("repeats its numbers for the same seed", () => {
+    expect(take(seededRandom(42), 20)).toEqual(take(seededRandom(42), 20));
+    expect(take(seededRandom(42), 20)).not.toEqual(take(seededRandom(43), 20));
+  });
+
+  it("gives numbers in [0, 1)", () => {
+    for (const value of take(seededRandom(7), 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe("distributeColorways", () => {
+  const methods: BlanketDistribution[] = ['random', 'gradient', 'diagonal'];
+
+  it.each(methods)("gives the same %s blanket for the same seed", method => {
+    const layout = blanket(6, 8);
+    expect(distributeColorways(layout, colorways, method, 1234)).toEqual(distributeColorways(layout, colorways, method, 1234));
+  });
+
+  it("gives a different random blanket for another seed", () => {
+    const layout = blanket(6, 8);
+    expect(distributeColorways(layout, colorways, 'random', 1)).not.toEqual(distributeColorways(layout, colorways, 'random', 2));
+  });
+
+  it.each([1, 2, 3, 99])("puts no two squares of the same outer colour side by side at random (seed %i)", seed => {
+    const layout = distributeColorways(blanket(7, 9), colorways, 'random', seed);
+    expect(matchingNeighbours(layout, colorways)).toBe(0);
+  });
+
+  it("uses every colourway about as often at random", () => {
+    const counts = countColorways(distributeColorways(blanket(6, 8), colorways, 'random', 5), colorways);
+    expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(2);
+  });
+
+  it("works around locked squares and keeps them", () => {
+    const layout = blanket(5, 5);
+    layout.squares[12] = { colorway: 2, locked: true };
+    for (const method of methods) {
+      const result = distributeColorways(layout, colorways, method, 8);
+      expect(result.squares[12]).toEqual({ colorway: 2, locked: true });
+      if (method === 'random') expect(matchingNeighbours(result, colorways)).toBe(0);
+    }
+  });
+
+  it("leaves the blanket alone without colourways", () => {
+    const layout = blanket(3, 3);
+    expect(distributeColorways(layout, [], 'random', 1)).toBe(layout);
+  });
+});
@@ -0,0 +1,163 @@
+import type { Round } from "./model";
+import { normalizeHex, luminance } from "./palettes";
+import { type YarnPerStitch, estimateYarn } from "./yarn";
+
+// ====== Blanket Planner ======
+// A colourway recolours the design by moving every colour a number of places along the design's
+// own list of colours, so each square of a blanket can use the same colours in a different order.
+export interface Colorway {
+  index: number; // 0 is the design as it is
+  roundColors: string[];
+  clusterColors: Record<string, string>;
+}
+
+export function designColorways(roundColors: string[], clusterColors: Record<string, string> = {}): Colorway[] {
+  const distinct = [...new Set([...roundColors, ...Object.values(clusterColors)])];
+  const shift = (color: string, k: number) => distinct[(distinct.indexOf(color) + k) % distinct.length];
+  return distinct.map((_, k) => ({
+    index: k,
+    roundColors: roundColors.map(color => shift(color, k)),
+    clusterColors: Object.fromEntries(Object.entries(clusterColors).map(([id, color]) => [id, shift(color, k)])),
+  }));
+}
+
+interface BlanketSquare {
+  colorway: number;
+  locked: boolean; // Locked squares keep their colourway when the blanket is shuffled
+}
+
+export interface BlanketLayout {
+  rows: number;
+  cols: number;
+  squares: BlanketSquare[]; // Row by row from the top left
+}
+
+// Resizes a blanket, keeping the squares that are still inside it where they were.
+// New squares step through the colourways along the diagonals.
+export function resizeBlanket(layout: BlanketLayout, rows: number, cols: number): BlanketLayout {
+  const squares = Array.from({ length: rows * cols }, (_, i): BlanketSquare => {
+    const [row, col] = [Math.floor(i / cols), i % cols];
+    const kept = row < layout.rows && col < layout.cols ? layout.squares[row * layout.cols + col] : undefined;
+    return kept ?? { colorway: row + col, locked: false };
+  });
+  return { rows, cols, squares };
+}
+
+// Colourway of a square, none when the design has no colours. Squares keep their number when the
+// design has fewer colours, so they wrap around.
+export const squareColorway = (square: BlanketSquare, colorways: Colorway[]): Colorway | undefined =>
+  colorways.length > 0 ? colorways[square.colorway % colorways.length] : undefined;
+
+// === Colour Distribution ===
+// Ways of handing out colourways over a blanket. Each takes a seed, so the same seed always gives
+// the same blanket. Locked squares are never changed, but the others take them into account.
+export type BlanketDistribution = 'random' | 'gradient' | 'diagonal';
+
+// Mulberry32: a small seeded generator of numbers in [0, 1).
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const outerColor = (colorway: Colorway) => colorway.roundColors[colorway.roundColors.length - 1];
+
+// Colours that are not hex sort as black.
+function colorLuminance(color: string): number {
+  const hex = normalizeHex(color);
+  return hex ? luminance([1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16))) : 0;
+}
+
+// Indices of the squares to the left, right, above and below.
+function neighbours(layout: BlanketLayout, index: number): number[] {
+  const [row, col] = [Math.floor(index / layout.cols), index % layout.cols];
+  return [[row, col - 1], [row, col + 1], [row - 1, col], [row + 1, col]]
+    .filter(([r, c]) => r >= 0 && r < layout.rows && c >= 0 && c < layout.cols)
+    .map(([r, c]) => r * layout.cols + c);
+}
+
+// Pairs of side-by-side squares whose outer rounds are the same colour.
+export function matchingNeighbours(layout: BlanketLayout, colorways: Colorway[]): number {
+  if (colorways.length === 0) return 0;
+  let matches = 0;
+  layout.squares.forEach((square, i) => neighbours(layout, i).filter(j => j > i).forEach(j => {
+    if (outerColor(squareColorway(square, colorways)!) === outerColor(squareColorway(layout.squares[j], colorways)!)) matches++;
+  }));
+  return matches;
+}
+
+// random:   square by square, a colourway whose outer colour differs from every neighbour chosen so
+//           far, preferring the colourways used least; ties are broken by the seed.
+// gradient: colourways from darkest to lightest outer colour, top to bottom, with the seed blurring
+//           the bands where they meet.
+// diagonal: the colourways in a seeded order, repeating along the diagonals.
+export function distributeColorways(layout: BlanketLayout, colorways: Colorway[], method: BlanketDistribution, seed: number): BlanketLayout {
+  const random = seededRandom(seed);
+  const n = colorways.length;
+  if (n === 0) return layout;
+  const squares = layout.squares.map(square => ({ ...square }));
+  const assign = (i: number, colorway: number) => {
+    if (!squares[i].locked) squares[i].colorway = colorway;
+  };
+
+  if (method === 'random') {
+    const used: number[] = colorways.map(() => 0);
+    squares.forEach(square => {
+      if (square.locked) used[squareColorway(square, colorways)!.index]++;
+    });
+    squares.forEach((square, i) => {
+      if (square.locked) return;
+      // Neighbours before this square are already placed; locked ones after it are placed too.
+      const taken = neighbours(layout, i)
+        .filter(j => j < i || squares[j].locked)
+        .map(j => outerColor(squareColorway(squares[j], colorways)!));
+      const score = (k: number) => taken.filter(color => color === outerColor(colorways[k])).length * squares.length + used[k];
+      const scores = colorways.map((_, k) => score(k));
+      const best = colorways.map((_, k) => k).filter(k => scores[k] === Math.min(...scores));
+      const choice = best[Math.floor(random() * best.length)];
+      assign(i, choice);
+      used[choice]++;
+    });
+  } else if (method === 'gradient') {
+    const order = colorways.map((_, k) => k).sort((a, b) => colorLuminance(outerColor(colorways[a])) - colorLuminance(outerColor(colorways[b])));
+    squares.forEach((_, i) => {
+      const row = Math.floor(i / layout.cols);
+      const t = (row + 0.5) / layout.rows + (random() - 0.5) / n;
+      assign(i, order[Math.max(0, Math.min(n - 1, Math.floor(t * n)))]);
+    });
+  } else {
+    const order = colorways.map((_, k) => k);
+    for (let k = n - 1; k > 0; k--) {
+      const j = Math.floor(random() * (k + 1));
+      [order[k], order[j]] = [order[j], order[k]];
+    }
+    squares.forEach((_, i) => assign(i, order[(Math.floor(i / layout.cols) + i % layout.cols) % n]));
+  }
+  return { ...layout, squares };
+}
+
+// Squares of each colourway, indexed by colourway.
+export function countColorways(layout: BlanketLayout, colorways: Colorway[]): number[] {
+  if (colorways.length === 0) return [];
+  const counts: number[] = colorways.map(() => 0);
+  layout.squares.forEach(square => counts[squareColorway(square, colorways)!.index]++);
+  return counts;
+}
+
+// Yarn for the whole blanket, per colour: each colourway's estimate times its number of squares.
+export function blanketYarn(rounds: Round[], yarnPerStitch: YarnPerStitch, colorways: Colorway[], counts: number[]): { colors: { color: string; length: number }[]; total: number } {
+  const colors = new Map<string, number>();
+  colorways.forEach((colorway, i) => {
+    if (counts[i] === 0) return;
+    estimateYarn(rounds, yarnPerStitch, colorway.roundColors, colorway.clusterColors).colors.forEach(({ color, length }) => {
+      colors.set(color, (colors.get(color) ?? 0) + length * counts[i]);
+    });
+  });
+  const entries = [...colors.entries()].map(([color, length]) => ({ color, length }));
+  return { colors: entries, total: entries.reduce((sum, entry) => sum + entry.length, 0) };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RECIPE } from "./model";
+import { DEFAULT_MOTIF, buildRounds, planRounds } from "./rounds";
+import { borderProblem, borderSideOps, borderStart, planBorder } from "./border";
+import type { StitchOp } from "./document";
+
+const outerRound = (n: number, motif = DEFAULT_MOTIF) => {
+  const rounds = buildRounds(planRounds(motif, n, 24, 24), { x: 0, y: 0 }, 24, 24, DEFAULT_RECIPE, false);
+  return rounds[rounds.length - 1];
+};
+
+// Stitches a side works, without the picots and skipped stitches.
+const sideStitchTotal = (ops: StitchOp[]) =>
+  ops.reduce((sum, op) => sum + (op.kind === 'picot' || op.kind === 'skip' ? 0 : op.count), 0);
+
+describe("borderStart", () => {
+  it("counts the stitches and chains along each side of a granny square", () => {
+    // 3 dc, ch 1, 3 dc, ch 1, 3 dc along each side of the third round
+    expect(borderStart(outerRound(3), { rounds: ['sc'] })).toEqual({ edges: [11, 11, 11, 11], intoSpace: true });
+  });
+
+  it("adds a stitch in each corner space either side of a join around a blanket", () => {
+    const round = outerRound(3);
+    // 3 squares across: 3 × 11 + 2 joins × 2; 2 squares down: 2 × 11 + 1 join × 2
+    expect(borderStart(round, { rounds: ['sc'], blanket: { rows: 2, cols: 3 } }).edges).toEqual([37, 24, 37, 24]);
+  });
+});
+
+describe("planBorder", () => {
+  it("grows every side by the corner stitches either side of it", () => {
+    const plan = planBorder([10, 10, 10, 10], true, ['sc', 'picot', 'shell']);
+    expect(plan.map(round => round.sides[0])).toEqual([
+      { edge: 10, repeats: 0, rest: 0 },
+      { edge: 12, repeats: 4, rest: 0 }, // 10 sc + 1 sc either side of the corner's middle sc
+      { edge: 14, repeats: 3, rest: 2 }, // 12 sc + 1 sc either side of the picot corner
+    ]);
+    expect(plan.map(round => round.intoSpace)).toEqual([true, false, true]);
+  });
+
+  it("works a side into every stitch of the edge below", () => {
+    for (const style of ['sc', 'crab', 'picot'] as const) {
+      const [round] = planBorder([17], false, [style]);
+      expect(sideStitchTotal(borderSideOps(style, round.sides[0]))).toBe(17);
+    }
+  });
+
+  it("covers the edge with shells of 5 dc, skipping a stitch either side", () => {
+    const [round] = planBorder([14], false, ['shell']);
+    expect(borderSideOps('shell', round.sides[0]).map(op => `${op.count} ${op.kind}`)).toEqual([
+      ...Array.from({ length: 3 }, () => ["1 skip", "5 dc", "1 skip", "1 sc"]).flat(),
+      "2 sc",
+    ]);
+  });
+
+  it("works crab stitch corners into a space or a single stitch", () => {
+    expect(planBorder([8], true, ['crab'])[0].corner).toEqual([{ kind: 'crab', count: 3 }]);
+    expect(planBorder([8], false, ['crab'])[0].corner).toEqual([{ kind: 'crab', count: 1 }]);
+  });
+
+  it("gives each side its own counts", () => {
+    const plan = planBorder([37, 24, 37, 24], true, ['sc', 'sc']);
+    expect(plan[1].sides.map(side => side.edge)).toEqual([39, 26, 39, 26]);
+  });
+});
+
+describe("borderProblem", () => {
+  it("needs corners to turn at", () => {
+    expect(borderProblem(outerRound(3), { rounds: ['sc'] })).toBeNull();
+    expect(borderProblem(outerRound(3, { ...DEFAULT_MOTIF, motif: 'circle' }), { rounds: ['sc'] })).toMatch(/no corners/);
+    expect(borderProblem(outerRound(3, { ...DEFAULT_MOTIF, sideCount: 6 }), { rounds: ['sc'], blanket: { rows: 2, cols: 2 } })).toMatch(/straight edge/);
+  });
+});
@@ -0,0 +1,191 @@
+import type { Vec2, StitchKind, Stitch, Round } from "./model";
+import { vecLerp, vecAdd, vecDot, sideEndpoints, sideFrame } from "./geometry";
+import type { BlanketLayout } from "./blanket";
+import { cornerTerms } from "./instructions";
+import { type StitchOp, stitchOp, skipOp } from "./document";
+import { edgeStitches } from "./joining";
+
+// ====== Border ======
+// Finishing rounds worked all the way around the outer edge, either of one square or of a whole joined blanket.
+// Each border round is planned from the number of stitches along every side of the edge below it, so the
+// same plan serves a square and a blanket. The first round counts the outer round's stitches and chains
+// (`edgeStitches`), not its anchors: a border stitch goes into each of them, where an anchor is a whole space.
+export type BorderStyle = 'sc' | 'crab' | 'picot' | 'shell';
+
+export const BORDER_STYLE_NAMES: Record<BorderStyle, string> = {
+  sc: "Single crochet",
+  crab: "Crab stitch",
+  picot: "Picot edge",
+  shell: "Shell edge",
+};
+
+export interface BorderOptions {
+  rounds: BorderStyle[]; // Innermost first
+  color?: string; // Defaults to the colour of the outer round
+  blanket?: Pick<BlanketLayout, 'rows' | 'cols'>; // Worked around the joined blanket instead of each square
+}
+
+export const NO_BORDER: BorderOptions = { rounds: [] };
+
+// One side of a border round, between two corners.
+export interface BorderSide {
+  edge: number; // Stitches (and chains) along this side of the edge below
+  repeats: number; // Picots or shells along the side
+  rest: number; // Stitches of the edge left after the repeats, each with 1 sc
+}
+
+export interface BorderRound {
+  number: number; // 1-based
+  style: BorderStyle;
+  intoSpace: boolean; // The corners below are chain spaces or picots rather than stitches
+  sides: BorderSide[];
+  corner: StitchOp[]; // Worked into every corner
+}
+
+// Stitches each style uses, for the abbreviation legend.
+export const BORDER_STITCH_KINDS: Record<BorderStyle, StitchKind[]> = { sc: ['sc'], crab: ['crab'], picot: ['sc', 'picot'], shell: ['sc', 'dc'] };
+
+export const PICOT_EVERY = 3; // sc between two picots
+const SHELL_SPAN = 4; // Stitches a shell and the sc after it cover: sk 1, 5 dc, sk 1, sc
+export const SHELL_SIZE = 5;
+const CORNER_SHELL_SIZE = 7;
+// Where two squares meet on the blanket edge, 1 stitch goes into the corner space of each.
+const BLANKET_JOIN_STITCHES = 2;
+
+function borderCorner(style: BorderStyle, intoSpace: boolean): StitchOp[] {
+  switch (style) {
+    case 'sc': return [stitchOp('sc', 3)];
+    case 'crab': return [stitchOp('crab', intoSpace ? 3 : 1)];
+    case 'picot': return [stitchOp('sc', 1), stitchOp('picot', 1), stitchOp('sc', 1)];
+    case 'shell': return [stitchOp('dc', CORNER_SHELL_SIZE)];
+  }
+}
+
+// Stitches of a corner either side of its middle one, which belong to the sides of the next round.
+export const cornerFlank = (corner: StitchOp[]) => (corner.reduce((sum, op) => sum + op.count, 0) - 1) / 2;
+
+// The stitches worked along one side, in order: single sc or crab stitches, picots after every third sc, or shells.
+export function borderSideOps(style: BorderStyle, side: BorderSide): StitchOp[] {
+  const rest = side.rest > 0 ? [stitchOp('sc', side.rest)] : [];
+  switch (style) {
+    case 'sc':
+    case 'crab': return side.edge > 0 ? [stitchOp(style, side.edge)] : [];
+    case 'picot': return [...Array.from({ length: side.repeats }, () => [stitchOp('sc', PICOT_EVERY), stitchOp('picot', 1)]).flat(), ...rest];
+    case 'shell': return [...Array.from({ length: side.repeats }, () => [skipOp(1), stitchOp('dc', SHELL_SIZE), skipOp(1), stitchOp('sc', 1)]).flat(), ...rest];
+  }
+}
+
+// Stitches along a side that the next round works into; it skips the picots.
+export const borderSideStitches = (style: BorderStyle, side: BorderSide) =>
+  borderSideOps(style, side).reduce((sum, op) => sum + (op.kind === 'picot' || op.kind === 'skip' ? 0 : op.count), 0);
+
+// Plans the border rounds from the stitches along each side of the edge, and whether its corners are spaces.
+export function planBorder(edges: number[], intoSpace: boolean, styles: BorderStyle[]): BorderRound[] {
+  let below = { edges, intoSpace };
+  return styles.map((style, i) => {
+    const into = below.intoSpace;
+    const corner = borderCorner(style, into);
+    const span = style === 'picot' ? PICOT_EVERY : style === 'shell' ? SHELL_SPAN : 0;
+    const sides = below.edges.map(edge => {
+      const repeats = span > 0 ? Math.floor(edge / span) : 0;
+      return { edge, repeats, rest: span > 0 ? edge - repeats * span : 0 };
+    });
+    const flank = cornerFlank(corner);
+    below = {
+      edges: sides.map(side => borderSideStitches(style, side) + 2 * flank),
+      intoSpace: style === 'picot',
+    };
+    return { number: i + 1, style, intoSpace: into, sides, corner };
+  });
+}
+
+// Borders turn at corners, so the outer round has to have them.
+export function borderProblem(round: Round | undefined, options: BorderOptions): string | null {
+  if (options.rounds.length === 0 || !round || round.id === 0) return null;
+  if (round.type !== 'polygon' && round.type !== 'transition') return "The last round has no corners for a border to turn at.";
+  if (options.blanket && round.sides.length !== 4) return "Only blankets of squares or rectangles have a straight edge for a border.";
+  return null;
+}
+
+// The edge the first border round is worked into: the outer round of one square, or the perimeter of
+// the blanket, where every square adds its edge plus a stitch in its corner space either side of each join.
+export function borderStart(round: Round, options: BorderOptions): { edges: number[]; intoSpace: boolean } {
+  const edges = round.sides.map(edgeStitches);
+  const intoSpace = cornerTerms(round).chains > 0;
+  if (!options.blanket) return { edges, intoSpace };
+  const { rows, cols } = options.blanket;
+  return {
+    edges: edges.map((edge, side) => {
+      const squares = side % 2 === 0 ? cols : rows;
+      return squares * edge + (squares - 1) * BLANKET_JOIN_STITCHES;
+    }),
+    intoSpace,
+  };
+}
+
+// === Border Chart ===
+interface BorderStitch {
+  stitch: Stitch;
+  base: Vec2; // Where it is worked into the edge below
+}
+
+export interface BorderChartRound {
+  number: number;
+  style: BorderStyle;
+  outline: Vec2[]; // Corners of the round's outer edge
+  stitches: BorderStitch[];
+}
+
+// Heights of the border rounds, in stitch heights: short stitches, or shells of dc.
+const BORDER_HEIGHT: Record<BorderStyle, number> = { sc: 0.6, crab: 0.6, picot: 0.6, shell: 1.2 };
+
+export const borderDepth = (styles: BorderStyle[], stitchHeight: number) =>
+  styles.reduce((sum, style) => sum + BORDER_HEIGHT[style] * stitchHeight, 0);
+
+// Moves every side of the outline outward by `distance`, keeping the corners' angles.
+function offsetOutline(corners: Vec2[], distance: number): Vec2[] {
+  const n = corners.length;
+  return corners.map((corner, i) => {
+    const before = sideFrame(corners, (i + n - 1) % n).outward;
+    const after = sideFrame(corners, i).outward;
+    return vecAdd(corner, vecAdd(before, after), distance / (1 + vecDot(before, after)));
+  });
+}
+
+// Places the border stitches of one square around its outer round: the groups of each side spread evenly
+// along it, and the corner stitches fanned around the corner.
+export function chartBorder(round: Round, plan: BorderRound[], stitchHeight: number, stitchWidth: number): BorderChartRound[] {
+  let outline = round.geo.corners;
+  return plan.map(border => {
+    const n = outline.length;
+    const height = BORDER_HEIGHT[border.style] * stitchHeight;
+    const stitches: BorderStitch[] = [];
+    const kinds = (ops: StitchOp[]) => ops.flatMap(op => op.kind === 'skip' ? [] : Array<StitchKind>(op.count).fill(op.kind));
+    border.sides.forEach((side, i) => {
+      const [p0, p1] = sideEndpoints(outline, i);
+      const { along, outward } = sideFrame(outline, i);
+      // Shells stay together; every other stitch is a group of its own.
+      const groups = borderSideOps(border.style, side).flatMap(op =>
+        op.kind === 'skip' ? [] : op.kind === 'dc' ? [kinds([op])] : kinds([op]).map(kind => [kind]));
+      groups.forEach((group, j) => {
+        const base = vecLerp(p0, p1, (j + 0.5) / groups.length);
+        group.forEach((kind, k) => {
+          const spread = (k - (group.length - 1) / 2) * stitchWidth * 0.3;
+          const pos = vecAdd(vecAdd(base, outward, kind === 'picot' ? height * 1.3 : height), along, spread);
+          stitches.push({ stitch: { id: `b${border.number}-s${i}-${j}-${k}`, kind, pos }, base });
+        });
+      });
+      const next = sideFrame(outline, (i + 1) % n).outward;
+      const corner = kinds(border.corner);
+      corner.forEach((kind, k) => {
+        const t = corner.length === 1 ? 0.5 : k / (corner.length - 1);
+        const direction = vecLerp(outward, next, t);
+        const length = Math.hypot(direction.x, direction.y);
+        const pos = vecAdd(p1, direction, (kind === 'picot' ? height * 1.3 : height) / length);
+        stitches.push({ stitch: { id: `b${border.number}-c${(i + 1) % n}-${k}`, kind, pos }, base: p1 });
+      });
+    });
+    outline = offsetOutline(outline, height);
+    return { number: border.number, style: border.style, outline, stitches };
+  });
+}
@@ -0,0 +1,604 @@
+import { type Vec2, type StitchKind, type Cluster, type Stitch, type Side, type Round, STITCH_DEFS } from "./model";
+import { vecLerp, vecAdd, sideEndpoints, sideFrame, apothemRatio, ringChainCount } from "./geometry";
+import { projectOntoCircle } from "./rounds";
+import type { BorderChartRound } from "./border";
+import { sideStitches } from "./instructions";
+
+// ====== Chart Context ======
+// The chart is drawn through this subset of the canvas API. Besides the real canvas, a recording
+// context implements it and writes every path as an SVG element, so the vector export comes from
+// the very drawing code that paints the screen.
+export type ChartContext = Pick<CanvasRenderingContext2D,
+  | 'save' | 'restore' | 'translate' | 'rotate' | 'scale'
+  | 'beginPath' | 'closePath' | 'moveTo' | 'lineTo' | 'quadraticCurveTo' | 'arc' | 'ellipse'
+  | 'stroke' | 'fill' | 'fillRect' | 'strokeRect' | 'fillText' | 'setLineDash'
+  | 'strokeStyle' | 'fillStyle' | 'lineWidth' | 'globalAlpha' | 'font' | 'textAlign' | 'textBaseline'>;
+
+export interface SvgChart extends ChartContext {
+  openGroup(id: string, layer?: string): void; // `layer`: shown as a named layer in Inkscape
+  closeGroup(): void;
+  toSvg(): string;
+}
+
+const isSvgChart = (ctx: ChartContext): ctx is SvgChart => 'openGroup' in ctx;
+
+// Groups what `draw` paints under one element id in the SVG export; on the canvas it just draws.
+function inGroup(ctx: ChartContext, id: string | undefined, draw: () => void, layer?: string) {
+  if (!id || !isSvgChart(ctx)) return draw();
+  ctx.openGroup(id, layer);
+  draw();
+  ctx.closeGroup();
+}
+
+// ====== Chart Renderer ======
+function drawEllipse(ctx: ChartContext, stitch: Stitch, rx: number, ry: number, color: string, angle: number) {
+  inGroup(ctx, stitch.id, () => {
+    ctx.save();
+    ctx.beginPath();
+    ctx.translate(stitch.pos.x, stitch.pos.y);
+    if (angle) {
+      ctx.rotate(angle);
+    }
+    ctx.ellipse(0, 0, rx, ry, 0, 0, 2 * Math.PI);
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+    ctx.restore();
+  });
+}
+
+// Stitches drawn as a post from their anchor, topped with the oval of the stitch's top loops.
+const hasTopLoop = (kind: StitchKind) => kind === 'hdc' || kind === 'dc' || kind === 'tr' || kind === 'dtr' || kind === 'puff' || kind === 'popcorn';
+
+// Number of slashes across the post: the standard chart marks each yarn-over with one.
+const POST_SLASHES: Partial<Record<StitchKind, number>> = { hdc: 0, dc: 1, tr: 2, dtr: 3 };
+
+// Draws the standard chart symbol for a stitch worked from `base` (its anchor) up to `stitch.pos`.
+function drawStitchSymbol(ctx: ChartContext, stitch: Stitch, base: Vec2, color: string, stitchWidth: number) {
+  inGroup(ctx, stitch.id, () => {
+    const top = stitch.pos;
+    const dx = top.x - base.x;
+    const dy = top.y - base.y;
+    const dist = Math.hypot(dx, dy) || 1;
+    const unitVec = { x: dx / dist, y: dy / dist };
+    const perpVec = { x: -unitVec.y, y: unitVec.x };
+
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = 1.5;
+
+    switch (stitch.kind) {
+      case 'slst': {
+        ctx.beginPath();
+        ctx.arc(top.x, top.y, stitchWidth / 10, 0, 2 * Math.PI);
+        ctx.fill();
+        break;
+      }
+      case 'sc': {
+        const arm = stitchWidth / 6;
+        ctx.beginPath();
+        ctx.moveTo(top.x - arm, top.y - arm);
+        ctx.lineTo(top.x + arm, top.y + arm);
+        ctx.moveTo(top.x + arm, top.y - arm);
+        ctx.lineTo(top.x - arm, top.y + arm);
+        ctx.stroke();
+        break;
+      }
+      case 'crab': {
+        // An sc cross with a tilde above it: worked backwards, the stitch twists.
+        const arm = stitchWidth / 6;
+        ctx.beginPath();
+        ctx.moveTo(top.x - arm, top.y - arm);
+        ctx.lineTo(top.x + arm, top.y + arm);
+        ctx.moveTo(top.x + arm, top.y - arm);
+        ctx.lineTo(top.x - arm, top.y + arm);
+        ctx.stroke();
+        const tilde = { x: top.x + unitVec.x * arm * 2, y: top.y + unitVec.y * arm * 2 };
+        ctx.beginPath();
+        ctx.moveTo(tilde.x - perpVec.x * arm, tilde.y - perpVec.y * arm);
+        ctx.quadraticCurveTo(tilde.x - perpVec.x * arm / 2 + unitVec.x * arm, tilde.y - perpVec.y * arm / 2 + unitVec.y * arm, tilde.x, tilde.y);
+        ctx.quadraticCurveTo(tilde.x + perpVec.x * arm / 2 - unitVec.x * arm, tilde.y + perpVec.y * arm / 2 - unitVec.y * arm, tilde.x + perpVec.x * arm, tilde.y + perpVec.y * arm);
+        ctx.stroke();
+        break;
+      }
+      case 'picot': {
+        const ringRadius = stitchWidth / 6;
+        ctx.beginPath();
+        ctx.arc(top.x, top.y, ringRadius, 0, 2 * Math.PI);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(top.x, top.y + ringRadius, stitchWidth / 14, 0, 2 * Math.PI);
+        ctx.fill();
+        break;
+      }
+      case 'puff':
+      case 'popcorn': {
+        // An elongated oval along the post; popcorns are shaded to show they are closed.
+        ctx.translate((base.x + top.x) / 2, (base.y + top.y) / 2);
+        ctx.rotate(Math.atan2(dy, dx));
+        ctx.beginPath();
+        ctx.ellipse(0, 0, dist / 2, stitchWidth / 6, 0, 0, 2 * Math.PI);
+        if (stitch.kind === 'popcorn') {
+          ctx.globalAlpha = 0.35;
+          ctx.fill();
+          ctx.globalAlpha = 1;
+        }
+        ctx.stroke();
+        break;
+      }
+      case 'hdc':
+      case 'dc':
+      case 'tr':
+      case 'dtr': {
+        ctx.beginPath();
+        ctx.moveTo(base.x, base.y);
+        ctx.lineTo(top.x, top.y);
+        ctx.stroke();
+
+        const slashes = POST_SLASHES[stitch.kind] ?? 0;
+        const crossbarHalfWidth = stitchWidth / 5;
+        for (let i = 0; i < slashes; i++) {
+          const t = 0.3 + i * 0.15;
+          const crossbarPoint = { x: top.x - unitVec.x * dist * t, y: top.y - unitVec.y * dist * t };
+          ctx.beginPath();
+          ctx.moveTo(crossbarPoint.x - perpVec.x * crossbarHalfWidth, crossbarPoint.y - perpVec.y * crossbarHalfWidth);
+          ctx.lineTo(crossbarPoint.x + perpVec.x * crossbarHalfWidth, crossbarPoint.y + perpVec.y * crossbarHalfWidth);
+          ctx.stroke();
+        }
+        break;
+      }
+      case 'chain': {
+        ctx.translate(top.x, top.y);
+        ctx.rotate(Math.atan2(dy, dx) + Math.PI / 2);
+        ctx.beginPath();
+        ctx.ellipse(0, 0, stitchWidth / 4, stitchWidth / 8, 0, 0, 2 * Math.PI);
+        ctx.stroke();
+        break;
+      }
+    }
+    ctx.restore();
+  });
+}
+
+// A petal: a shaded leaf from the ring to the top of the petal stitch, with the
+// stitch symbol drawn inside it.
+function drawPetal(ctx: ChartContext, stitch: Stitch, base: Vec2, color: string, stitchWidth: number) {
+  const top = stitch.pos;
+  const dist = Math.hypot(top.x - base.x, top.y - base.y) || 1;
+  const halfWidth = stitchWidth * 0.6;
+
+  ctx.save();
+  ctx.translate(base.x, base.y);
+  ctx.rotate(Math.atan2(top.y - base.y, top.x - base.x));
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.quadraticCurveTo(dist * 0.55, -halfWidth * 2, dist, 0);
+  ctx.quadraticCurveTo(dist * 0.55, halfWidth * 2, 0, 0);
+  ctx.closePath();
+  ctx.fillStyle = color;
+  ctx.globalAlpha = 0.15;
+  ctx.fill();
+  ctx.globalAlpha = 1;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.stroke();
+  ctx.restore();
+
+  drawStitchSymbol(ctx, stitch, base, color, stitchWidth);
+}
+
+// The chart view draws every stitch from its anchor with the standard symbols. The
+// stitch view spreads the stitches and chains evenly along the real side length,
+// closer to how the finished work looks.
+export type PatternView = 'chart' | 'stitch';
+
+// A compiled round laid out for the stitch view: every stitch and chain gets an equal share of its
+// side. Only the positions move, so both views show the same pattern.
+function spreadEvenly(round: Round): Round {
+  if (round.type === 'ring' || round.type === 'foundation') return round;
+  const sides = round.sides.map((side): Side => {
+    const [p0, p1] = sideEndpoints(round.geo.corners, side.side);
+    const at = (t: number) => vecLerp(p0, p1, t);
+    // Each side owns the first half of the corner chains at its start and the second half at its end.
+    const startChainCount = Math.floor(side.cornerChains.length / 2);
+    const endChainCount = side.cornerChains.length - startChainCount;
+    const gapUnits = side.clusters.length > 1 ? side.spaceChains.length / (side.clusters.length - 1) : 0; // Chains or picots between two clusters
+    const units = sideStitches(side) + side.cornerChains.length + gapUnits * (side.clusters.length - 1);
+
+    let stitchIndex = 0;
+    const clusters = side.clusters.map((cluster, j): Cluster => {
+      const stitches = cluster.stitches.map((stitch, k) => ({ ...stitch, pos: at((startChainCount + stitchIndex + j * gapUnits + k + 0.5) / units) }));
+      stitchIndex += stitches.length;
+      return { ...cluster, stitches, centerPos: vecLerp(stitches[0].pos, stitches[stitches.length - 1].pos, 0.5) };
+    });
+    const cornerChains = side.cornerChains.map((stitch, i) => ({
+      ...stitch,
+      pos: i < startChainCount ? at((i + 0.5) / units) : at(1 - (endChainCount - 1 - (i - startChainCount) + 0.5) / units),
+    }));
+    const spaceChains = side.spaceChains.map((stitch, i) => {
+      const [j, k] = [Math.floor(i / gapUnits), i % gapUnits];
+      if (stitch.kind === 'picot') return { ...stitch, pos: vecLerp(clusters[j].centerPos, clusters[j + 1].centerPos, 0.5) };
+      const gapStart = clusters[j].stitches[clusters[j].stitches.length - 1].pos;
+      return { ...stitch, pos: vecLerp(gapStart, clusters[j + 1].stitches[0].pos, (k + 1) / (gapUnits + 1)) };
+    });
+
+    // Anchors keep their type: side spaces sit between the clusters, the others on or between the stitches.
+    const stitches = clusters.flatMap(cluster => cluster.stitches);
+    const anchors = side.anchorsOnThisSide;
+    const middle = anchors.slice(1, -1).map((anchor, i) => ({
+      ...anchor,
+      pos: anchor.type === 'side-space' ? vecLerp(clusters[i].centerPos, clusters[i + 1].centerPos, 0.5)
+        : anchor.type === 'stitch' ? stitches[i].pos
+        : vecLerp(stitches[i].pos, stitches[i + 1].pos, 0.5),
+    }));
+    // Corners without chains, and the gaps between the sides of a round without real corners, sit on the corner point.
+    const atPoint = side.cornerChains.length === 0 || anchors[0].type === 'side-space';
+    const anchorsOnThisSide = [
+      { ...anchors[0], pos: atPoint ? p0 : at(0.5 / units) },
+      ...middle,
+      { ...anchors[anchors.length - 1], pos: atPoint ? p1 : at(1 - 0.5 / units) },
+    ];
+    return { ...side, clusters, cornerChains, spaceChains, anchorsOnThisSide };
+  });
+
+  const spread: Round = { ...round, sides };
+  if (round.type === 'circle') projectOntoCircle(spread);
+  if (round.join) spread.join = { ...round.join, pos: { ...sides[1].clusters[0].stitches[0].pos } };
+  return spread;
+}
+
+// The rounds as the canvas shows them in the given view.
+export const viewRounds = (rounds: Round[], view: PatternView) => view === 'stitch' ? rounds.map(spreadEvenly) : rounds;
+
+function drawStitchViewRound(ctx: ChartContext, round: Round, color: string, stitchHeight: number, stitchWidth: number, clusterColors: Record<string, string> = {}) {
+  const { corners, center } = round.geo;
+
+  round.sides.forEach(side => {
+    const [p0, p1] = sideEndpoints(corners, side.side);
+    const { angle: sideAngle } = sideFrame(corners, side.side);
+    // Circle rounds have been pulled onto their circle, so their stitches follow its tangent.
+    const angleAt = (pos: Vec2) => (round.type === 'circle' ? Math.atan2(pos.y - center.y, pos.x - center.x) + Math.PI / 2 : sideAngle);
+    const units = side.cornerChains.length + side.spaceChains.length + sideStitches(side);
+    const unitWidth = Math.hypot(p1.x - p0.x, p1.y - p0.y) / Math.max(1, units);
+
+    [...side.cornerChains, ...side.spaceChains].forEach(stitch => {
+      if (stitch.kind === 'picot') {
+        drawStitchSymbol(ctx, stitch, stitch.pos, color, stitchWidth);
+      } else {
+        drawEllipse(ctx, stitch, unitWidth * 0.4, stitchHeight / 8, color, angleAt(stitch.pos));
+      }
+    });
+
+    side.clusters.forEach(cluster => cluster.stitches.forEach(stitch => {
+      const clusterColor = clusterColors[cluster.id] ?? color;
+      if (stitch.kind === 'puff' || stitch.kind === 'popcorn') {
+        // Puffs and popcorns are shaded to show their bulk.
+        ctx.save();
+        ctx.translate(stitch.pos.x, stitch.pos.y);
+        ctx.rotate(angleAt(stitch.pos));
+        ctx.beginPath();
+        ctx.ellipse(0, 0, unitWidth / 2, stitchHeight / 3, 0, 0, 2 * Math.PI);
+        ctx.fillStyle = clusterColor;
+        ctx.globalAlpha = 0.3;
+        ctx.fill();
+        ctx.restore();
+      }
+      drawEllipse(ctx, stitch, unitWidth / 2, stitchHeight / 4, clusterColor, angleAt(stitch.pos));
+    }));
+  });
+
+  if (round.join) {
+    drawStitchSymbol(ctx, round.join, round.join.pos, color, stitchWidth);
+  }
+}
+
+export function drawRound(ctx: ChartContext, { round, rounds, color, clusterColors = {}, stitchHeight, stitchWidth, showStitches, view = 'chart' }: { round: Round; rounds: Round[]; color: string; clusterColors?: Record<string, string>; stitchHeight: number; stitchWidth: number; showStitches: boolean; view?: PatternView; }) {
+  const { corners } = round.geo;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.setLineDash([3, 3]);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.globalAlpha = 0.6;
+  if (round.type === 'circle') {
+    ctx.arc(round.geo.center.x, round.geo.center.y, round.geo.r, 0, 2 * Math.PI);
+  } else {
+    ctx.moveTo(corners[0].x, corners[0].y);
+    corners.slice(1).forEach((p: Vec2) => ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+  }
+  ctx.stroke();
+  ctx.restore();
+
+  if (round.foundation) {
+    // A rectangle starts from a straight foundation chain instead of a ring.
+    const { angle } = sideFrame(corners, 0);
+    round.foundation.forEach(stitch => drawEllipse(ctx, stitch, stitchWidth / 4, stitchHeight / 8, color, angle));
+  } else if (round.id === 0 ) {
+    const r0ellipseRx = stitchWidth / 4;
+    const r0ellipseRy = stitchHeight / 8;
+    // Ring chains sit on the circle through the side midpoints, tangent to it.
+    const chainCount = ringChainCount(corners.length);
+    const inradius = round.geo.r * apothemRatio(corners.length);
+    const chainAngles = Array.from({ length: chainCount }, (_, i) => -Math.PI / 2 + (2 * Math.PI * i) / chainCount);
+    const stitchPositions = chainAngles.map(a => vecAdd(round.geo.center, { x: Math.cos(a), y: Math.sin(a) }, inradius));
+    ctx.beginPath();
+    ctx.moveTo(stitchPositions[0].x, stitchPositions[0].y);
+    stitchPositions.slice(1).forEach((p: { x: number; y: number; }) => ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+    stitchPositions.forEach((centerPos: Vec2, i: number) => {
+      drawEllipse(ctx, { pos: centerPos } as Stitch, r0ellipseRx, r0ellipseRy, color, chainAngles[i] + Math.PI / 2);
+    });
+  }
+
+  if (round.id >= 1 && view === 'stitch') {
+    drawStitchViewRound(ctx, round, color, stitchHeight, stitchWidth, clusterColors);
+  } else if (round.id >= 1) {
+    const chartEllipseRx = stitchWidth / 4;
+    const chartEllipseRy = stitchHeight / 8;
+
+    round.sides.forEach(side => {
+      const { angle } = sideFrame(corners, side.side);
+      
+      side.cornerChains.forEach(stitch => drawEllipse(ctx, stitch, chartEllipseRx, chartEllipseRy, color, angle));
+      side.spaceChains.forEach(stitch => {
+        if (stitch.kind === 'picot') {
+          drawStitchSymbol(ctx, stitch, stitch.pos, color, stitchWidth);
+        } else if (showStitches) {
+          drawEllipse(ctx, stitch, chartEllipseRx, chartEllipseRy, color, angle);
+        }
+      });
+      
+      side.clusters.forEach(cluster => {
+        const clusterColor = clusterColors[cluster.id] ?? color;
+        if (cluster.anchorRef) {
+          const prevRound = rounds[cluster.anchorRef.roundId];
+          const prevSide = prevRound?.sides[cluster.anchorRef.side];
+          const anchor = prevSide?.anchorsOnThisSide[cluster.anchorRef.slotIndex];
+          
+          if (anchor) {
+            const anchorPos = anchor.pos;
+            const isTheOneTrueStartOfRound = side.side === 1 && cluster === side.clusters[0];
+            let stitchesToDraw = cluster.stitches;
+
+            if (isTheOneTrueStartOfRound) {
+                const firstStitch = cluster.stitches[0];
+                const def = STITCH_DEFS[firstStitch.kind];
+                const dx = firstStitch.pos.x - anchorPos.x;
+                const dy = firstStitch.pos.y - anchorPos.y;
+                const angle = Math.atan2(dy, dx);
+                const dist = Math.hypot(dx, dy);
+
+                // Beginning chain: one small oval per chain, spread between the anchor and the first stitch.
+                ctx.save();
+                ctx.translate(anchorPos.x, anchorPos.y);
+                ctx.rotate(angle);
+                for (let i = 1; i <= def.turningChains; i++) {
+                    const chainDist = dist * i / (def.turningChains + 1);
+                    drawEllipse(ctx, { pos: { x: chainDist, y: 0 } } as Stitch, chartEllipseRx * 0.8, chartEllipseRy * 0.8, clusterColor, 0);
+                }
+                ctx.restore();
+
+                if (def.chainCountsAsStitch) {
+                    stitchesToDraw = cluster.stitches.slice(1);
+                }
+            }
+
+            const drawSymbol = round.style === 'petal' ? drawPetal : drawStitchSymbol;
+            stitchesToDraw.forEach(stitch => drawSymbol(ctx, stitch, anchorPos, clusterColor, stitchWidth));
+          }
+        }
+        
+        const ellipseRy = showStitches ? chartEllipseRy : 0;
+        cluster.stitches
+          .filter(stitch => hasTopLoop(stitch.kind))
+          .forEach(stitch => drawEllipse(ctx, stitch, chartEllipseRx, ellipseRy, clusterColor, angle));
+      });
+    });
+
+    if (round.join) {
+      drawStitchSymbol(ctx, round.join, round.join.pos, color, stitchWidth);
+    }
+  }
+}
+
+// === Chart Overlays ===
+// Optional marks drawn over the chart, and kept in the downloaded image.
+export interface ChartOverlays {
+  legend: boolean; // Symbol key below the chart
+  roundNumbers: boolean; // Numbered badge where each round starts
+  direction: boolean; // Arrow in the direction each round is worked
+  joins: boolean; // Ring around the slip stitch that closes each round
+}
+
+export const NO_OVERLAYS: ChartOverlays = { legend: false, roundNumbers: false, direction: false, joins: false };
+
+interface LegendEntry {
+  kind: StitchKind;
+  label: string; // Abbreviation
+  name: string; // Full stitch name, left out where it is the same as the abbreviation
+}
+
+const OVERLAY_COLOR = '#1f2937';
+const LEGEND_ROW_HEIGHT = 24;
+const LEGEND_LABEL_WIDTH = 60; // Room for the abbreviation before the full name
+const LEGEND_PADDING = 8;
+
+// One row per stitch, as the full names are too long to sit side by side.
+function legendHeight(entries: LegendEntry[]): number {
+  return entries.length === 0 ? 0 : entries.length * LEGEND_ROW_HEIGHT + 2 * LEGEND_PADDING;
+}
+
+// Where a round starts and which way it is worked: its first stitch, on the second side.
+function roundStart(round: Round): { pos: Vec2; along: Vec2; outward: Vec2 } | null {
+  const first = round.id > 0 ? round.sides[1]?.clusters[0]?.stitches[0] : undefined;
+  if (!first) return null;
+  const { along, outward } = sideFrame(round.geo.corners, 1);
+  return { pos: first.pos, along, outward };
+}
+
+function drawRoundNumber(ctx: ChartContext, round: Round, color: string, stitchWidth: number, stitchHeight: number) {
+  const start = roundStart(round);
+  if (!start) return;
+  // Just before the first stitch, inside the round, so it does not cover the next one.
+  const pos = vecAdd(vecAdd(start.pos, start.along, -stitchWidth * 0.8), start.outward, -stitchHeight * 0.4);
+  const radius = stitchWidth * 0.32;
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(pos.x, pos.y, radius, 0, 2 * Math.PI);
+  ctx.fillStyle = 'white';
+  ctx.fill();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.stroke();
+  ctx.fillStyle = OVERLAY_COLOR;
+  ctx.font = `bold ${radius * 1.3}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(String(round.id), pos.x, pos.y);
+  ctx.restore();
+}
+
+function drawDirectionArrow(ctx: ChartContext, round: Round, stitchWidth: number, stitchHeight: number) {
+  const start = roundStart(round);
+  if (!start) return;
+  const from = vecAdd(vecAdd(start.pos, start.along, stitchWidth * 0.3), start.outward, stitchHeight * 0.25);
+  const to = vecAdd(from, start.along, stitchWidth * 1.4);
+  const head = stitchWidth * 0.25;
+  ctx.save();
+  ctx.strokeStyle = OVERLAY_COLOR;
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.moveTo(to.x - start.along.x * head + start.outward.x * head / 2, to.y - start.along.y * head + start.outward.y * head / 2);
+  ctx.lineTo(to.x, to.y);
+  ctx.lineTo(to.x - start.along.x * head - start.outward.x * head / 2, to.y - start.along.y * head - start.outward.y * head / 2);
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawJoinMarker(ctx: ChartContext, round: Round, stitchWidth: number) {
+  if (!round.join) return;
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(round.join.pos.x, round.join.pos.y, stitchWidth / 4, 0, 2 * Math.PI);
+  ctx.strokeStyle = OVERLAY_COLOR;
+  ctx.lineWidth = 1.5;
+  ctx.stroke();
+  ctx.restore();
+}
+
+// The symbol key, in screen pixels, as a strip `top` pixels down the canvas.
+function drawLegend(ctx: ChartContext, entries: LegendEntry[], width: number, top: number) {
+  ctx.save();
+  ctx.strokeStyle = '#e5e7eb';
+  ctx.beginPath();
+  ctx.moveTo(LEGEND_PADDING, top);
+  ctx.lineTo(width - LEGEND_PADDING, top);
+  ctx.stroke();
+  ctx.textBaseline = 'middle';
+  entries.forEach(({ kind, label, name }, i) => {
+    const x = LEGEND_PADDING + 10;
+    const y = top + LEGEND_PADDING + i * LEGEND_ROW_HEIGHT + LEGEND_ROW_HEIGHT / 2;
+    // Posts run up from below; the other symbols sit on the line of text.
+    const tall = POST_SLASHES[kind] !== undefined || kind === 'puff' || kind === 'popcorn';
+    drawStitchSymbol(ctx, { id: `legend-${kind}`, kind, pos: { x, y: tall ? y - 8 : y } }, { x, y: y + 8 }, OVERLAY_COLOR, 20);
+    ctx.fillStyle = OVERLAY_COLOR;
+    ctx.font = 'bold 12px sans-serif';
+    ctx.fillText(label, x + 16, y);
+    ctx.font = '12px sans-serif';
+    if (name !== label) ctx.fillText(name, x + 16 + LEGEND_LABEL_WIDTH, y);
+  });
+  ctx.restore();
+}
+
+// A border round: its outer edge dashed like the rounds, and every stitch drawn up from where it is worked.
+function drawBorderRound(ctx: ChartContext, border: BorderChartRound, color: string, stitchWidth: number) {
+  ctx.save();
+  ctx.beginPath();
+  ctx.setLineDash([3, 3]);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.globalAlpha = 0.6;
+  ctx.moveTo(border.outline[0].x, border.outline[0].y);
+  border.outline.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+  ctx.closePath();
+  ctx.stroke();
+  ctx.restore();
+
+  border.stitches.forEach(({ stitch, base }) => drawStitchSymbol(ctx, stitch, base, color, stitchWidth));
+}
+
+// Everything the chart is drawn from, on the canvas and in the SVG export alike.
+export interface ChartDrawing {
+  width: number;
+  height: number; // Of the chart itself; the legend adds its strip below
+  rounds: Round[];
+  stitchHeight: number;
+  stitchWidth: number;
+  showStitches: boolean;
+  view: PatternView;
+  scale: number;
+  colors: string[];
+  clusterColors: Record<string, string>;
+  joinPoints?: Vec2[];
+  border?: BorderChartRound[];
+  borderColor?: string;
+  overlays?: ChartOverlays;
+  legend?: LegendEntry[];
+}
+
+// The legend is a strip under the chart, so the chart itself keeps its size.
+export const chartHeight = ({ height, overlays = NO_OVERLAYS, legend = [] }: ChartDrawing) =>
+  height + (overlays.legend ? legendHeight(legend) : 0);
+
+// Draws the whole chart: each round and border round as a layer of its own, then the markings over them.
+export function drawChart(ctx: ChartContext, chart: ChartDrawing) {
+  const { width, height, rounds, stitchHeight, stitchWidth, showStitches, view, scale, colors, clusterColors, joinPoints = [], border = [], borderColor, overlays = NO_OVERLAYS, legend = [] } = chart;
+
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, width, chartHeight(chart));
+
+  ctx.save();
+  ctx.translate(width / 2, height / 2);
+
+  if (scale) {
+      ctx.scale(scale, scale);
+  }
+
+  rounds.forEach((round) => {
+    inGroup(ctx, `round-${round.id}`, () => {
+      drawRound(ctx, { round, rounds, color: colors[round.id], clusterColors, stitchHeight, stitchWidth, showStitches, view });
+    }, `Round ${round.id}`);
+  });
+  border.forEach(round => inGroup(ctx, `border-${round.number}`, () => {
+    drawBorderRound(ctx, round, borderColor ?? colors[colors.length - 1], stitchWidth);
+  }, `Border round ${round.number}`));
+
+  // Join points: where the outer round slip stitches into, or is seamed to, the next square.
+  if (joinPoints.length > 0) inGroup(ctx, 'join-points', () => joinPoints.forEach(point => {
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, stitchWidth / 5, 0, 2 * Math.PI);
+    ctx.fillStyle = '#dc2626';
+    ctx.fill();
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+  }), "Join points");
+
+  if (overlays.joins || overlays.direction || overlays.roundNumbers) inGroup(ctx, 'overlays', () => rounds.forEach(round => {
+    if (overlays.joins) drawJoinMarker(ctx, round, stitchWidth);
+    if (overlays.direction) drawDirectionArrow(ctx, round, stitchWidth, stitchHeight);
+    if (overlays.roundNumbers) drawRoundNumber(ctx, round, colors[round.id], stitchWidth, stitchHeight);
+  }), "Overlays");
+
+  ctx.restore();
+
+  if (overlays.legend && legend.length > 0) inGroup(ctx, 'legend', () => drawLegend(ctx, legend, width, height), "Legend");
+}
@@ -0,0 +1,147 @@
+import { type StitchKind, STITCH_DEFS, type ClusterRecipe } from "./model";
+import { type Terminology, type PatternLanguage, type PatternLocale, englishMoreTimes } from "./locale";
+import type { CornerTerms, RoundCounts } from "./instructions";
+import type { JoinMethod } from "./joining";
+
+// === Pattern Document ===
+// Structured form of the written pattern: rounds made of numbered steps, each step listing the stitches it works.
+// The text in every instruction style, the checklist and the exports are all rendered from this.
+type OpKind = StitchKind | 'skip';
+
+export interface StitchOp {
+  kind: OpKind;
+  count: number;
+}
+
+export interface PatternStep {
+  text: string; // Beginner prose
+  short: string; // Abbreviated notation, lower case and without a full stop
+  ops: StitchOp[]; // Worked once per repeat; empty for steps that only repeat earlier ones
+  repeat?: number; // Total times the ops are worked, when more than once
+  // Steps `from`..`to` (1-based) are worked `times` times in all, then step `endWith` once more.
+  repeatSteps?: { from: number; to: number; times: number; endWith?: number };
+}
+
+export interface PatternRound {
+  number: number;
+  label?: string; // e.g. "squaring round"
+  color?: string; // Id of the colour the round is worked in
+  groupColors?: string[][]; // Colour ids of every group, side by side from the start of the round, when some are picked out
+  steps: PatternStep[];
+  summary: string;
+  counts: RoundCounts;
+}
+
+export interface PatternDocument {
+  language: PatternLanguage;
+  terminology: Terminology;
+  title: string;
+  startsFrom: 'ring' | 'foundation';
+  colors: PatternColor[]; // Materials, in the order the colours are first used
+  start: PatternStep;
+  rounds: PatternRound[];
+  joining?: PatternJoining; // How the squares are joined into a blanket, when they are
+  border?: PatternBorder;
+  stitchKinds: StitchKind[]; // For the abbreviation legend
+}
+
+export interface PatternJoining {
+  method: JoinMethod;
+  note: string;
+  steps: PatternStep[];
+  counts?: string; // Join points of one square, when joining as you go
+}
+
+export interface PatternBorder {
+  blanket: boolean; // Worked around the joined blanket rather than each square
+  note: string;
+  rounds: PatternRound[];
+}
+
+// One yarn colour of the motif, lettered in the order it is first used.
+export interface PatternColor {
+  id: string; // "A", "B", ...
+  value: string; // CSS colour, as painted on the chart
+  rounds: number[]; // Round 0 is the starting ring or foundation chain
+  border?: boolean; // Also used for the border
+}
+
+export type InstructionStyle = 'beginner' | 'standard' | 'compact';
+
+export const INSTRUCTION_STYLE_NAMES: Record<InstructionStyle, string> = {
+  beginner: "Beginner (full sentences)",
+  standard: "Standard (abbreviated)",
+  compact: "Compact (one line per round)",
+};
+
+export const chainOp = (count: number): StitchOp => ({ kind: 'chain', count });
+export const stitchOp = (kind: StitchKind, count: number): StitchOp => ({ kind, count });
+export const skipOp = (count: number): StitchOp => ({ kind: 'skip', count });
+export const JOIN_OPS: StitchOp[] = [{ kind: 'slst', count: 1 }];
+
+// e.g. "ch 3, 2 dc, ch 2, 3 dc"
+export function opsText(ops: StitchOp[], locale: PatternLocale): string {
+  return locale.list(ops.map(({ kind, count }) => {
+    if (kind === 'chain') return locale.chain(count);
+    if (kind === 'skip') return locale.skip(count);
+    return locale.count(count, kind);
+  }));
+}
+
+export function beginningOps(kind: StitchKind, clusterSize: number): StitchOp[] {
+  const def = STITCH_DEFS[kind];
+  const rest = def.chainCountsAsStitch ? clusterSize - 1 : clusterSize;
+  return [chainOp(def.turningChains), ...(rest > 0 ? [stitchOp(kind, rest)] : [])];
+}
+
+export function cornerOps(recipe: ClusterRecipe, terms: CornerTerms, first: boolean = false, kind: StitchKind = recipe.stitchKind): StitchOp[] {
+  const group = stitchOp(kind, recipe.stitchesPerCluster);
+  return [...(first ? beginningOps(kind, recipe.stitchesPerCluster) : [group]), chainOp(terms.chains), group];
+}
+
+export const spaceOps = (recipe: ClusterRecipe, picot: boolean): StitchOp[] => [picot ? stitchOp('picot', 1) : chainOp(recipe.sideChains)];
+
+// Stitches worked `times` times in all, starred and repeated in both notations, or written once.
+// Beginner prose is only written in English.
+export function starRepeat(text: string, short: string, times: number, locale: PatternLocale): [string, string] {
+  if (times <= 1) return [text, short];
+  return [`*${text}* Repeat ${englishMoreTimes(times - 1)}.`, locale.repeatFromStar(short, locale.moreTimes(times - 1))];
+}
+
+// How the pattern, joining and border builders make their steps, each given in beginner prose and abbreviated.
+interface StepBuilder {
+  step(text: string, short: string, ops: StitchOp[], times?: number): PatternStep; // Works its ops `times` times
+  starred(text: string, short: string, ops: StitchOp[], times: number): PatternStep; // The same, written as a star repeat
+  repeatStep(text: string, repeatSteps: NonNullable<PatternStep['repeatSteps']>): PatternStep;
+  repeatAround(repeatSteps: NonNullable<PatternStep['repeatSteps']>, note?: string): PatternStep; // The same, worded for steps repeated around the round
+}
+
+// Other languages than English have no beginner prose, so their steps write out the abbreviated text instead.
+export function stepBuilder(locale: PatternLocale): StepBuilder {
+  const english = locale.language === 'en';
+  // Single steps carry no repeat.
+  const step = (text: string, short: string, ops: StitchOp[], times: number = 1): PatternStep => {
+    const written = english ? text : locale.sentence(short);
+    return times > 1 ? { text: written, short, ops, repeat: times } : { text: written, short, ops };
+  };
+  const repeatStep = (text: string, repeatSteps: NonNullable<PatternStep['repeatSteps']>): PatternStep =>
+    ({ ...step(text, locale.repeatSteps(repeatSteps), []), repeatSteps });
+  return {
+    step,
+    starred: (text, short, ops, times) => step(...starRepeat(text, short, times, locale), ops, times),
+    repeatStep,
+    // Says to work `endWith` once more, as the abbreviated text does.
+    repeatAround: (repeatSteps, note) => {
+      const { from, to, endWith } = repeatSteps;
+      const steps = from === to ? `step ${from}` : `steps ${from} and ${to}`;
+      return repeatStep(`Repeat ${steps} around${note ? `, ${note}` : ""}${endWith ? `, then work step ${endWith} once more along the last side` : ""}.`, repeatSteps);
+    },
+  };
+}
+
+// Side repeats in abbreviated notation, mirroring `sideInstruction`.
+export function sideShort(locale: PatternLocale, sideClusters: number, recipe: ClusterRecipe, picot: boolean, kind: StitchKind, until: 'corner' | 'increase' | 'quarter', counts?: string, space: string = locale.chainSpace(recipe.sideChains)): string {
+  const group = locale.list([opsText(spaceOps(recipe, picot), locale), locale.inNext(locale.count(recipe.stitchesPerCluster, kind), space)]);
+  if (sideClusters === 1 && !counts) return group;
+  return locale.repeatFromStar(group, locale.until(until, counts ?? locale.groups(sideClusters)));
+}
@@ -0,0 +1,66 @@
+import type { Vec2, SideIndex, RoundGeo } from "./model";
+import type { RoundSpec } from "./rounds";
+
+// ====== Geometry Helpers ======
+export const vecLerp = (a: Vec2, b: Vec2, t: number): Vec2 => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+export const vecAdd = (a: Vec2, b: Vec2, scale: number = 1): Vec2 => ({ x: a.x + b.x * scale, y: a.y + b.y * scale });
+export const vecDot = (a: Vec2, b: Vec2) => a.x * b.x + a.y * b.y;
+
+// Corners of a regular polygon with a flat top side, clockwise from the top-left corner.
+// For four sides this is the familiar TL, TR, BR, BL square.
+function polygonFromCircumradius(center: Vec2, r: number, sideCount: number): Vec2[] {
+  return Array.from({ length: sideCount }, (_, i) => {
+    const angle = -Math.PI / 2 - Math.PI / sideCount + (2 * Math.PI * i) / sideCount;
+    return { x: center.x + r * Math.cos(angle), y: center.y + r * Math.sin(angle) };
+  });
+}
+
+export function sideEndpoints(corners: Vec2[], side: SideIndex): [Vec2, Vec2] {
+  return [corners[side], corners[(side + 1) % corners.length]];
+}
+
+// Unit vector along a side (direction of work) and the outward normal.
+export function sideFrame(corners: Vec2[], side: SideIndex): { along: Vec2; outward: Vec2; angle: number } {
+  const [p0, p1] = sideEndpoints(corners, side);
+  const length = Math.hypot(p1.x - p0.x, p1.y - p0.y);
+  const along = { x: (p1.x - p0.x) / length, y: (p1.y - p0.y) / length };
+  return { along, outward: { x: along.y, y: -along.x }, angle: Math.atan2(along.y, along.x) };
+}
+
+// Corners of a rectangle, clockwise from the top-left corner like the square.
+function rectangleCorners(center: Vec2, halfSize: Vec2): Vec2[] {
+  return [
+    { x: center.x - halfSize.x, y: center.y - halfSize.y },
+    { x: center.x + halfSize.x, y: center.y - halfSize.y },
+    { x: center.x + halfSize.x, y: center.y + halfSize.y },
+    { x: center.x - halfSize.x, y: center.y + halfSize.y },
+  ];
+}
+
+export function roundCorners(center: Vec2, spec: RoundSpec): Vec2[] {
+  return spec.halfSize ? rectangleCorners(center, spec.halfSize) : polygonFromCircumradius(center, spec.r, spec.sideCount);
+}
+
+export function buildRoundGeo(roundId: number, center: Vec2, spec: RoundSpec): RoundGeo {
+  return { r: spec.r, corners: roundCorners(center, spec), center };
+}
+
+// Ratio of the inscribed to the circumscribed radius of a regular polygon.
+export const apothemRatio = (sideCount: number) => Math.cos(Math.PI / sideCount);
+
+// Circumradius scale that gives a polygon the same side length as a square of radius 1.
+// Every shape gains one cluster per side each round, so its sides must grow like the square's.
+export const sideLengthRatio = (sideCount: number) => Math.sin(Math.PI / 4) / Math.sin(Math.PI / sideCount);
+
+// Axis-aligned bounds of a set of points.
+export function boundsOf(points: Vec2[]): { min: Vec2; max: Vec2 } {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return { min: { x: Math.min(...xs), y: Math.min(...ys) }, max: { x: Math.max(...xs), y: Math.max(...ys) } };
+}
+
+// Chains in the starting ring; larger motifs need a bigger ring to fit all clusters.
+export const ringChainCount = (sideCount: number) => Math.max(4, sideCount);
+
+export const SHAPE_NAMES: Record<number, string> = { 3: "Triangle", 4: "Square", 5: "Pentagon", 6: "Hexagon", 8: "Octagon" };
@@ -0,0 +1,146 @@
+import { type StitchKind, type Side, type Round, STITCH_DEFS, type ClusterRecipe, stitchCount, type StitchNames } from "./model";
+import type { MotifTitleInfo } from "./locale";
+
+// === Helper Functions ===
+export function beginningInstruction(kind: StitchKind, clusterSize: number, names: StitchNames = STITCH_DEFS): string {
+  const def = STITCH_DEFS[kind];
+  if (def.chainCountsAsStitch) {
+    return clusterSize > 1
+      ? `Chain ${def.turningChains} (counts as a ${names[kind].abbr}), then work ${stitchCount(clusterSize - 1, kind, names)}`
+      : `Chain ${def.turningChains} (counts as a ${names[kind].abbr})`;
+  }
+  return `Chain ${def.turningChains} (does not count as a stitch), then work ${stitchCount(clusterSize, kind, names)}`;
+}
+
+// How the corner spaces of a round are named: real corners on polygons, increases on circles.
+export interface CornerTerms {
+  chains: number;
+  space: string;
+  result: string;
+}
+
+export function cornerTerms(round: Round): CornerTerms {
+  const chains = round.sides[0].cornerChains.length;
+  if (round.type === 'circle') {
+    return { chains, space: `chain-${chains} space`, result: "an increase" };
+  }
+  return { chains, space: "corner space", result: "a corner" };
+}
+
+export function cornerInstruction(recipe: ClusterRecipe, terms: CornerTerms, first: boolean = false, kind: StitchKind = recipe.stitchKind, names: StitchNames = STITCH_DEFS): string {
+  const group = stitchCount(recipe.stitchesPerCluster, kind, names);
+  if (first) {
+    return `${beginningInstruction(kind, recipe.stitchesPerCluster, names)}, chain ${terms.chains}, and ${group} all into the same space. (This makes the first ${terms.result.replace(/^an? /, "")}.)`;
+  }
+  return `In the next ${terms.space}, work ${group}, chain ${terms.chains}, ${group}. (This makes ${terms.result}.)`;
+}
+
+export function spaceInstruction(recipe: ClusterRecipe, picot: boolean): string {
+  return picot ? "Work a picot (chain 3, slip stitch in the 3rd chain from the hook)." : `Chain ${recipe.sideChains}.`;
+}
+
+export function sideInstruction(sideClusters: number, recipe: ClusterRecipe, picot: boolean, until: string = "the next corner", counts?: string, space: string = `chain-${recipe.sideChains} space`, names: StitchNames = STITCH_DEFS): string {
+  if (sideClusters === 0) return "";
+  const group = stitchCount(recipe.stitchesPerCluster, recipe.stitchKind, names);
+  if (sideClusters === 1 && !counts) {
+    return `${spaceInstruction(recipe, picot)} In the next ${space} along the side, work ${group}.`;
+  }
+  return `Along each side: *${spaceInstruction(recipe, picot)} Work ${group} in the next ${space}.* Repeat until you reach ${until} (${counts ?? `${sideClusters} groups`}).`;
+}
+
+// Rectangles have long and short sides with different numbers of groups.
+export const isRectangle = (round: Round) => round.sides.length === 4 && round.sides[0].clusters.length !== round.sides[1].clusters.length;
+
+export const rectangleSides = (round: Round) => [round.sides[0], round.sides[1]].map(side => side.clusters.length - 2);
+
+export function rectangleSideCounts(long: number, short: number): string {
+  return `${long} groups along the long sides, ${short > 0 ? short : "none"} along the short sides`;
+}
+
+export const totalClusters = (round: Round) => round.sides.reduce((sum, side) => sum + side.clusters.length, 0);
+export const sideStitches = (side: Side) => side.clusters.reduce((sum, cluster) => sum + cluster.stitches.length, 0);
+export const totalStitches = (round: Round) => round.sides.reduce((sum, side) => sum + sideStitches(side), 0);
+
+// Exact end-of-round count taken from the compiled round.
+export interface RoundCounts {
+  clusters?: number; // Only for rounds made of groups
+  stitches: { kind: StitchKind; count: number }[];
+  corners?: { chains: number; count: number };
+  spaces: { chains: number; count: number }[]; // Longest chains first
+  picots: number;
+}
+
+export function roundCounts(round: Round, recipe: ClusterRecipe): RoundCounts {
+  const stitches = new Map<StitchKind, number>();
+  round.sides.forEach(side => side.clusters.forEach(cluster => cluster.stitches.forEach(stitch => {
+    stitches.set(stitch.kind, (stitches.get(stitch.kind) ?? 0) + 1);
+  })));
+
+  // Corner chains only make corners on polygons; on circles they are increase spaces like any other.
+  const spaces = new Map<number, number>();
+  const addSpaces = (chains: number, count: number) => {
+    if (chains > 0 && count > 0) spaces.set(chains, (spaces.get(chains) ?? 0) + count);
+  };
+  const cornerChains = cornerTerms(round).chains;
+  const hasCorners = (round.type === 'polygon' || round.type === 'transition') && cornerChains > 0;
+  if (!hasCorners) addSpaces(cornerChains, round.sides.length);
+  const spaceChains = round.sides.flatMap(side => side.spaceChains);
+  const picots = spaceChains.filter(stitch => stitch.kind === 'picot').length;
+  if (recipe.sideChains > 0) addSpaces(recipe.sideChains, Math.round((spaceChains.length - picots) / recipe.sideChains));
+
+  return {
+    clusters: round.style === 'open' || round.style === 'spaced' ? totalClusters(round) : undefined,
+    stitches: (Object.keys(STITCH_DEFS) as StitchKind[])
+      .filter(kind => stitches.has(kind))
+      .map(kind => ({ kind, count: stitches.get(kind)! })),
+    corners: hasCorners ? { chains: cornerChains, count: round.sides.length } : undefined,
+    spaces: [...spaces.entries()].sort(([x], [y]) => y - x).map(([chains, count]) => ({ chains, count })),
+    picots,
+  };
+}
+
+export function roundSummary(round: Round, recipe: ClusterRecipe, names: StitchNames = STITCH_DEFS): string {
+  const cluster = stitchCount(recipe.stitchesPerCluster, recipe.stitchKind, names);
+  const terms = cornerTerms(round);
+  const kind = round.sides[0].clusters[0].stitches[0].kind;
+  switch (round.style) {
+    case 'solid':
+      return `You now have ${stitchCount(totalStitches(round), kind, names)} (${sideStitches(round.sides[0])} along each side) and ${round.sides.length} corner chain-${terms.chains} spaces.`;
+    case 'burst':
+      return `You now have ${stitchCount(totalStitches(round), kind, names)} in a circle.`;
+    case 'puff':
+      return `You now have ${stitchCount(totalStitches(round), kind, names)} separated by chain-${terms.chains} spaces.`;
+    case 'petal':
+      return `You now have ${totalStitches(round)} ${names[kind].abbr} petals separated by chain-${terms.chains} spaces.`;
+    case 'spaced':
+      return `You now have ${totalClusters(round)} groups of ${cluster}, one in each space.`;
+  }
+  if (round.type === 'circle') {
+    return `You now have ${totalClusters(round)} groups of ${cluster} in a flat circle, with ${round.sides.length} increases.`;
+  }
+  if (round.type === 'transition') {
+    const perSide = round.sides.map(side => side.clusters.length);
+    return `The circle is now squared off: 4 corner chain-${terms.chains} spaces and ${perSide.join("/")} groups along the sides.`;
+  }
+  if (isRectangle(round)) {
+    return `You now have ${totalClusters(round)} groups of ${cluster} (${round.sides[0].clusters.length} along each long side and ${round.sides[1].clusters.length} along each short side) and 4 corner chain-${terms.chains} spaces.`;
+  }
+  return `You now have ${totalClusters(round)} groups of ${cluster} and ${round.sides.length} corner chain-${terms.chains} spaces.`;
+}
+
+export function motifTitleInfo(rounds: Round[]): MotifTitleInfo {
+  const sides = rounds[0].sides.length;
+  const squared = rounds.some(round => round.type === 'transition');
+  if (rounds[0].foundation) {
+    const outer = rounds[rounds.length - 1];
+    return { kind: 'rectangle', width: outer.sides[0].clusters.length, height: outer.sides[1].clusters.length };
+  }
+  if (rounds.some(round => round.style === 'burst')) return { kind: 'sunburst', squared };
+  if (rounds.some(round => round.style === 'petal')) {
+    return { kind: 'flower', petals: sides, stitch: rounds[1].sides[0].clusters[0].stitches[0].kind, squared };
+  }
+  if (rounds.some(round => round.style === 'solid')) return { kind: 'solid', sides };
+  if (squared) return { kind: 'circle-to-square', sides };
+  if (rounds[1]?.type === 'circle') return { kind: 'circle', sides };
+  return { kind: 'polygon', sides };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { type Round, DEFAULT_RECIPE } from "./model";
+import { type MotifOptions, DEFAULT_MOTIF, buildRounds, planRounds } from "./rounds";
+import { buildPattern } from "./pattern";
+import { type JoinOptions, joinAsYouGoProblem, joinedSides, joinPoints } from "./joining";
+
+const lastRound = (motif: Partial<MotifOptions> = {}, picotEdge: boolean = false): Round =>
+  buildRounds(planRounds({ ...DEFAULT_MOTIF, ...motif }, 3, 24, 24), { x: 0, y: 0 }, 24, 24, DEFAULT_RECIPE, picotEdge).at(-1)!;
+
+const joinAsYouGo = (sides: number): JoinOptions => ({ method: 'join-as-you-go', sides });
+
+describe("joinedSides", () => {
+  it("joins the sides after the first one", () => {
+    const round = lastRound();
+    expect(joinedSides(round, joinAsYouGo(1)).map(side => side.side)).toEqual([2]);
+    expect(joinedSides(round, joinAsYouGo(2)).map(side => side.side)).toEqual([2, 3]);
+    expect(joinedSides(round, { method: 'whip-stitch', sides: 4 }).map(side => side.side)).toEqual([2, 3, 0, 1]);
+  });
+
+  it("leaves two sides of a square free to join as you go", () => {
+    expect(joinedSides(lastRound(), joinAsYouGo(4))).toHaveLength(2);
+  });
+
+  it("joins nothing without a join method", () => {
+    expect(joinedSides(lastRound(), { method: 'none', sides: 2 })).toEqual([]);
+  });
+});
+
+describe("joinPoints", () => {
+  it("joins at every space of the joined sides, the shared corner once", () => {
+    const round = lastRound();
+    // Round 3 has a corner, 2 side spaces and a corner along each side.
+    expect(joinPoints(round, joinAsYouGo(1))).toHaveLength(4);
+    expect(joinPoints(round, joinAsYouGo(2))).toEqual([
+      ...round.sides[2].anchorsOnThisSide.slice(0, -1).map(anchor => anchor.pos),
+      ...round.sides[3].anchorsOnThisSide.map(anchor => anchor.pos),
+    ]);
+  });
+
+  it("has no join points when the last round cannot be joined as you go", () => {
+    expect(joinPoints(lastRound({ motif: 'circle' }), joinAsYouGo(2))).toEqual([]);
+  });
+});
+
+describe("joinAsYouGoProblem", () => {
+  it("accepts a granny square", () => {
+    expect(joinAsYouGoProblem(lastRound())).toBeNull();
+  });
+
+  it("needs corners and chain spaces to join at", () => {
+    expect(joinAsYouGoProblem(lastRound({ motif: 'circle' }))).toBe("The last round has no corners to join at. Seam the squares instead.");
+    const noSpaces = "The last round needs chain spaces between its groups to join as you go. Seam the squares instead.";
+    expect(joinAsYouGoProblem(lastRound({ motif: 'solid-granny' }))).toBe(noSpaces);
+    expect(joinAsYouGoProblem(lastRound({}, true))).toBe(noSpaces);
+  });
+
+  it("leaves the joining out of a pattern it applies to", () => {
+    const rounds = buildRounds(planRounds({ ...DEFAULT_MOTIF, motif: 'solid-granny' }, 3, 24, 24), { x: 0, y: 0 }, 24, 24, DEFAULT_RECIPE, false);
+    expect(buildPattern(rounds, DEFAULT_RECIPE, undefined, [], {}, joinAsYouGo(2))!.joining).toBeUndefined();
+    expect(buildPattern(rounds, DEFAULT_RECIPE, undefined, [], {}, { method: 'whip-stitch', sides: 2 })!.joining?.method).toBe('whip-stitch');
+  });
+});
@@ -0,0 +1,59 @@
+import type { Vec2, Side, Round } from "./model";
+import type { BlanketLayout } from "./blanket";
+import { sideStitches } from "./instructions";
+
+// === Joining ===
+// Squares are either joined while the last round of each new square is worked, slip stitching into
+// the spaces of the finished squares beside it (join as you go), or seamed along their outer edges
+// once they are all finished.
+export type JoinMethod = 'none' | 'join-as-you-go' | 'whip-stitch' | 'slip-stitch-seam' | 'sc-seam';
+
+export const JOIN_METHOD_NAMES: Record<JoinMethod, string> = {
+  none: "No joining",
+  'join-as-you-go': "Join as you go",
+  'whip-stitch': "Whip stitch seam",
+  'slip-stitch-seam': "Slip stitch seam",
+  'sc-seam': "Single crochet seam",
+};
+
+export interface JoinOptions {
+  method: JoinMethod;
+  sides: number; // Sides joined to finished squares: 1 along the first row of a blanket, 2 for most squares
+  blanket?: Pick<BlanketLayout, 'rows' | 'cols'>; // For the order the squares are joined in
+}
+
+export const NO_JOINING: JoinOptions = { method: 'none', sides: 2 };
+
+// Most sides a square can join as you go: the round starts in the corner before side 1,
+// which is already worked by the time the joins come round to it.
+export const maxJoinedSides = (round: Round, method: JoinMethod) =>
+  method === 'join-as-you-go' ? Math.max(1, round.sides.length - 2) : round.sides.length;
+
+// Sides of the last round that meet finished squares, in the order they are worked: the ones after side 1.
+export function joinedSides(round: Round, options: JoinOptions): Side[] {
+  if (options.method === 'none') return [];
+  const count = Math.min(options.sides, maxJoinedSides(round, options.method));
+  return Array.from({ length: count }, (_, j) => round.sides[(j + 2) % round.sides.length]);
+}
+
+// Joining as you go slip stitches into chain spaces, so the last round needs corners and chain spaces on every side.
+export function joinAsYouGoProblem(round: Round): string | null {
+  if (round.type !== 'polygon' && round.type !== 'transition') return "The last round has no corners to join at. Seam the squares instead.";
+  if (round.sides.some(side => side.spaceChains.length === 0 || side.spaceChains.some(stitch => stitch.kind !== 'chain'))) {
+    return "The last round needs chain spaces between its groups to join as you go. Seam the squares instead.";
+  }
+  return null;
+}
+
+// Where the square is joined, on the outer round's anchors: every space of a joined side, each corner once.
+export function joinPoints(round: Round, options: JoinOptions): Vec2[] {
+  const sides = joinedSides(round, options);
+  if (options.method === 'join-as-you-go' && joinAsYouGoProblem(round)) return [];
+  return sides.flatMap((side, j) => {
+    const anchors = side.anchorsOnThisSide.map(anchor => anchor.pos);
+    return j === sides.length - 1 ? anchors : anchors.slice(0, -1);
+  });
+}
+
+// Stitches and chains along one side between its corner spaces, which a seam works through.
+export const edgeStitches = (side: Side) => sideStitches(side) + side.spaceChains.filter(stitch => stitch.kind === 'chain').length;
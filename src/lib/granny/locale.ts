@@ -0,0 +1,460 @@
+import { type StitchKind, type Round, STITCH_DEFS, type ClusterRecipe, stitchCount, type StitchNames } from "./model";
+import { SHAPE_NAMES } from "./geometry";
+import { rectangleSideCounts, type RoundCounts, roundSummary } from "./instructions";
+import type { PatternStep, PatternColor, InstructionStyle } from "./document";
+import { type JoinMethod, JOIN_METHOD_NAMES } from "./joining";
+
+// === Terminology & Languages ===
+// US and UK patterns give different names to the same stitches ("dc" in the US is "tr" in the UK),
+// and translated patterns rename everything, so the stitch names are looked up per locale.
+export type Terminology = 'us' | 'uk';
+export type PatternLanguage = 'en' | 'zh-CN';
+
+export const TERMINOLOGY_NAMES: Record<Terminology, string> = { us: "US terms", uk: "UK terms" };
+export const LANGUAGE_NAMES: Record<PatternLanguage, string> = { en: "English", "zh-CN": "简体中文" };
+
+// UK names are one step up from the US ones; a US single crochet is a UK double crochet.
+const UK_STITCH_NAMES: StitchNames = {
+  ...STITCH_DEFS,
+  slst: { abbr: "ss",  plural: "ss",  name: "Slip Stitch" },
+  sc:   { abbr: "dc",  plural: "dc",  name: "Double Crochet (UK)" },
+  hdc:  { abbr: "htr", plural: "htr", name: "Half Treble" },
+  dc:   { abbr: "tr",  plural: "tr",  name: "Treble (UK)" },
+  tr:   { abbr: "dtr", plural: "dtr", name: "Double Treble (UK)" },
+  dtr:  { abbr: "trtr", plural: "trtr", name: "Triple Treble" },
+  crab: { abbr: "rev dc", plural: "rev dc", name: "Crab Stitch (reverse dc, worked left to right)" },
+};
+
+const ZH_STITCH_NAMES: StitchNames = {
+  chain:   { abbr: "锁针",     plural: "锁针",     name: "锁针" },
+  slst:    { abbr: "引拔针",   plural: "引拔针",   name: "引拔针" },
+  sc:      { abbr: "短针",     plural: "短针",     name: "短针" },
+  hdc:     { abbr: "中长针",   plural: "中长针",   name: "中长针" },
+  dc:      { abbr: "长针",     plural: "长针",     name: "长针" },
+  tr:      { abbr: "长长针",   plural: "长长针",   name: "长长针" },
+  dtr:     { abbr: "三卷长针", plural: "三卷长针", name: "三卷长针" },
+  picot:   { abbr: "狗牙针",   plural: "狗牙针",   name: "狗牙针（锁3针，在第3针锁针里引拔）" },
+  puff:    { abbr: "枣形针",   plural: "枣形针",   name: "枣形针" },
+  popcorn: { abbr: "爆米花针", plural: "爆米花针", name: "爆米花针" },
+  crab:    { abbr: "逆短针",   plural: "逆短针",   name: "逆短针（从左往右钩）" },
+};
+
+// What the title of a motif says, before it is put into words.
+export type MotifTitleInfo =
+  | { kind: 'rectangle'; width: number; height: number }
+  | { kind: 'sunburst'; squared: boolean }
+  | { kind: 'flower'; petals: number; stitch: StitchKind; squared: boolean }
+  | { kind: 'solid' | 'polygon' | 'circle' | 'circle-to-square'; sides: number };
+
+// Everything the abbreviated pattern says, in one language and terminology.
+export interface PatternLocale {
+  language: PatternLanguage;
+  terminology: Terminology;
+  names: StitchNames;
+  styles: InstructionStyle[]; // Beginner prose is only written in English
+  legendTitle: string;
+  noteTitle: string;
+  note: string;
+  legend(kinds: StitchKind[], style: InstructionStyle): string;
+  motifTitle(info: MotifTitleInfo): string;
+  summary(round: Round, recipe: ClusterRecipe): string; // Beginner line before the round's counts
+  counts(counts: RoundCounts): string;
+  // Stitches and places
+  count(n: number, kind: StitchKind): string;
+  chain(n: number): string;
+  skip(n: number): string;
+  list(parts: string[]): string;
+  group(text: string): string;
+  chainSpace(chains: number): string;
+  space: string;
+  betweenStitches: string;
+  betweenGroups: string;
+  // Where the stitches go
+  inRing(what: string): string;
+  inSame(what: string, place: 'sp' | 'ch' | 'st'): string;
+  inNext(what: string, space: string): string;
+  inChain(what: string, which: 'first' | 'last'): string;
+  eachAcross(kind: StitchKind, total: number): string;
+  slipTo(space: string): string;
+  slipInto(space: string): string;
+  slipEachTo(space: string): string;
+  firstCorner(text: string): string;
+  rotate(text: string): string;
+  startRing(chains: number): string;
+  startFoundation(chains: number): string;
+  joinTop(chains: number): string;
+  joinFirst(kind: StitchKind): string;
+  // Repeats
+  repeatFromStar(body: string, tail: string): string;
+  moreTimes(n: number): string;
+  until(place: 'corner' | 'increase' | 'quarter' | 'first-ch' | 'last-ch', count?: string): string;
+  groups(n: number): string;
+  rectangleCounts(long: number, short: number): string;
+  repeatSteps(repeat: NonNullable<PatternStep['repeatSteps']>): string;
+  bracketRepeat(inner: string, times: number): string;
+  // Colours
+  materialsTitle: string; // Heading of the colour list, punctuation included
+  colorName(id: string): string;
+  materials(color: PatternColor, start: 'ring' | 'foundation'): string;
+  withColor(color: string, text: string): string;
+  joinColor(color: string, place: string): string;
+  fastenOff(color?: string): string; // The last fasten-off of the motif names no colour
+  groupColors(sides: string[][]): string;
+  ring: string;
+  lastFoundationChain: string;
+  any(space: string): string;
+  // Joining
+  joiningTitle(method: JoinMethod): string;
+  joinNote(method: JoinMethod): string;
+  asWritten(n: number, part: 'to-corner' | 'rest'): string;
+  slipNeighbour(space: string, meet?: boolean): string; // `meet`: the corner where two finished squares are already joined
+  joinCounts(corners: number, sides: number): string;
+  seamHold: string;
+  seamStart(method: JoinMethod): string;
+  seamAcross(method: JoinMethod, edge: string): string;
+  seamEnd(method: JoinMethod): string;
+  edgeCount(n: number, short?: number): string; // `short`: the short sides of a rectangle
+  blanketOrder(method: JoinMethod, rows: number, cols: number): string;
+  // Border
+  borderTitle(blanket: boolean): string;
+  borderNote(blanket: boolean): string;
+  borderHeading(n: number): string;
+  borderCompactHeading(n: number): string;
+  sideCounts(top: number, left?: number): string; // `left`: the left and right sides, when they differ from the top and bottom
+  eachNext(kind: StitchKind, n: number): string;
+  skipStitches(n: number): string;
+  slipNext(n: number): string;
+  stitch: string;
+  cornerStitch: string;
+  topLeft(space: string): string;
+  // Layout
+  sentence(short: string): string;
+  fullStop: string;
+  squaringRound: string;
+  start(text: string): string;
+  roundHeading(n: number, label?: string): string;
+  compactHeading(n: number): string;
+}
+
+const englishPlural = (count: number, word: string) => `${count} ${count === 1 ? word : `${word}s`}`;
+export const englishMoreTimes = (n: number) => n === 1 ? "once more" : `${n} more times`;
+
+function englishLocale(terminology: Terminology): PatternLocale {
+  const names = terminology === 'uk' ? UK_STITCH_NAMES : STITCH_DEFS;
+  const shape = (sides: number) => SHAPE_NAMES[sides] ?? `${sides}-sided motif`;
+  const slip = names.slst.abbr;
+  const colorName = (id: string) => `${terminology === 'uk' ? "Colour" : "Color"} ${id}`;
+  return {
+    language: 'en',
+    terminology,
+    names,
+    styles: ['beginner', 'standard', 'compact'],
+    legendTitle: terminology === 'uk' ? "Abbreviations (UK terms)" : "Abbreviations (US terms)",
+    noteTitle: "Note",
+    note: "The visual diagram is a schematic representation. The written instructions follow the standard method for a classic granny square.",
+    legend: (kinds, style) => [
+      ...kinds.map(kind => `${names[kind].abbr} = ${names[kind].name}`),
+      ...(style === 'beginner' ? [] : Object.entries(TERM_ABBREVIATIONS).map(([abbr, term]) => `${abbr} = ${term}`)),
+    ].join(", "),
+    motifTitle: info => {
+      switch (info.kind) {
+        case 'rectangle': return `Granny rectangle (${info.width} × ${info.height} groups)`;
+        case 'sunburst': return info.squared ? "Sunburst granny (puff center, then 4 corners)" : "Sunburst circle (puff center)";
+        case 'flower': {
+          const petal = `${info.petals} ${names[info.stitch].abbr} petals`;
+          return info.squared ? `Flower granny (${petal}, then 4 corners)` : `Granny flower (${petal})`;
+        }
+        case 'solid': return `Solid granny ${shape(info.sides)} (${info.sides} corners)`;
+        case 'circle-to-square': return `Circle-to-square granny (${info.sides} increases per circle round, then 4 corners)`;
+        case 'circle': return `Granny circle (${info.sides} increases per round)`;
+        case 'polygon': return `Granny ${shape(info.sides)} (${info.sides} corners)`;
+      }
+    },
+    summary: (round, recipe) => roundSummary(round, recipe, names),
+    counts: counts => `[${[
+      ...(counts.clusters !== undefined ? [englishPlural(counts.clusters, "cluster")] : []),
+      ...counts.stitches.map(({ kind, count }) => stitchCount(count, kind, names)),
+      ...(counts.corners ? [`${counts.corners.count} ch-${counts.corners.chains} ${counts.corners.count === 1 ? "corner" : "corners"}`] : []),
+      ...counts.spaces.map(({ chains, count }) => `${count} ch-${chains} ${count === 1 ? "space" : "spaces"}`),
+      ...(counts.picots > 0 ? [englishPlural(counts.picots, "picot")] : []),
+    ].join(", ")}]`,
+    count: (n, kind) => stitchCount(n, kind, names),
+    chain: n => `ch ${n}`,
+    skip: n => `sk ${n} ch`,
+    list: parts => parts.join(", "),
+    group: text => `(${text})`,
+    chainSpace: chains => `ch-${chains} sp`,
+    space: "sp",
+    betweenStitches: "sp between sts",
+    betweenGroups: "sp between groups",
+    inRing: what => `${what} in ring`,
+    inSame: (what, place) => `${what} in same ${place}`,
+    inNext: (what, space) => `${what} in next ${space}`,
+    inChain: (what, which) => `${what} in ${which} ch`,
+    eachAcross: (kind, total) => `${names[kind].abbr} in each st across (${stitchCount(total, kind, names)})`,
+    slipTo: space => `${slip} to next ${space}`,
+    slipInto: space => `${slip} in next ${space}`,
+    slipEachTo: space => `${slip} in each st to next ${space}`,
+    firstCorner: text => `${text} (first corner)`,
+    rotate: text => `${text}; rotate to work along the other side of the foundation ch`,
+    startRing: chains => `ch ${chains}, join with ${slip} to form a ring`,
+    startFoundation: chains => `ch ${chains} (foundation ch)`,
+    joinTop: chains => `join with ${slip} to top of beg ch-${chains}`,
+    joinFirst: kind => `join with ${slip} to first ${names[kind].abbr}`,
+    repeatFromStar: (body, tail) => `*${body}; rep from * ${tail}`,
+    moreTimes: englishMoreTimes,
+    until: (place, count) => {
+      const target = {
+        corner: "to next corner",
+        increase: "to next inc",
+        quarter: "to the space a quarter of the way around",
+        'first-ch': "to first ch",
+        'last-ch': "to last ch",
+      }[place];
+      return count ? `${target} (${count})` : target;
+    },
+    groups: n => `${n} groups`,
+    rectangleCounts: rectangleSideCounts,
+    repeatSteps: ({ from, to, times, endWith }) => {
+      const steps = from === to ? `step ${from}` : `steps ${from}–${to}`;
+      return `rep ${steps} ${englishMoreTimes(times - 1)}${endWith ? `, then step ${endWith} once more` : ""}`;
+    },
+    bracketRepeat: (inner, times) => `[${inner}] ${times} times`,
+    materialsTitle: "Materials:",
+    colorName,
+    materials: (color, start) => {
+      const rounds = color.rounds.filter(n => n > 0);
+      return `${colorName(color.id)} (${color.value}): ${[
+        ...(color.rounds.includes(0) ? [start === 'foundation' ? "foundation chain" : "starting ring"] : []),
+        ...(rounds.length > 0 ? [`${rounds.length === 1 ? "round" : "rounds"} ${rounds.join(", ")}`] : []),
+        ...(color.border ? ["border"] : []),
+      ].join(", ")}`;
+    },
+    withColor: (color, text) => `with ${color}, ${text}`,
+    joinColor: (color, place) => `join ${color} with ${slip} in ${place}`,
+    fastenOff: color => color ? `fasten off ${color}` : "fasten off and weave in ends",
+    groupColors: sides => `${terminology === 'uk' ? "Colours" : "Colors"} of the groups (carry the unused yarn along and work over it): ${
+      sides.map((ids, i) => `side ${i + 1}: ${ids.join("-")}`).join("; ")}`,
+    ring: "ring",
+    lastFoundationChain: "last foundation ch",
+    any: space => `any ${space}`,
+    joiningTitle: method => `Joining (${method === 'sc-seam' ? `${names.sc.abbr} seam` : JOIN_METHOD_NAMES[method].toLowerCase()}):`,
+    joinNote: method => method === 'join-as-you-go'
+      ? "Work the first square in full. Every other square is joined to the finished squares beside it while you work its last round: turn it so the sides marked on the chart face them."
+      : "Finish all the squares first, then join them along their outer edges.",
+    asWritten: (n, part) => part === 'rest' ? `work rest of R${n} as written` : `work R${n} as written to 2nd corner`,
+    slipNeighbour: (space, meet) => meet ? `${slip} in corner join of finished squares` : `${slip} in matching ${space} of finished square`,
+    joinCounts: (corners, sides) => `[${englishPlural(corners, "corner join")}, ${englishPlural(sides, "side join")}]`,
+    seamHold: "hold 2 squares right sides together, edges matched",
+    seamStart: method => method === 'whip-stitch'
+      ? "thread yarn on a tapestry needle, insert through both corner sps"
+      : `join with ${slip} through both corner sps${method === 'sc-seam' ? `, ch 1, 1 ${names.sc.abbr} in same sp` : ""}`,
+    seamAcross: (method, edge) => {
+      const through = "each matching pair of sts across";
+      if (method === 'whip-stitch') return `whipstitch through back loops of ${through} (${edge})`;
+      if (method === 'sc-seam') return `${names.sc.abbr} through both loops of ${through} (${edge})`;
+      return `${slip} through back loops of ${through} (${edge})`;
+    },
+    seamEnd: method => method === 'whip-stitch'
+      ? "insert through both corner sps"
+      : `${method === 'sc-seam' ? names.sc.abbr : slip} through both corner sps`,
+    edgeCount: (n, short) => short === undefined ? `${n} sts per side` : `${n} sts on long sides, ${short} on short sides`,
+    blanketOrder: (method, rows, cols) => {
+      if (method === 'join-as-you-go') {
+        const twoSides = (rows - 1) * (cols - 1);
+        const oneSide = rows * cols - 1 - twoSides;
+        return `join squares row by row: ${oneSide} on 1 side (rest of first row, first square of other rows), ${twoSides} on 2 sides`;
+      }
+      return `seam squares into ${rows} rows of ${cols} (${englishPlural(rows * (cols - 1), "short seam")}), then seam rows together (${englishPlural(rows - 1, "long seam")})`;
+    },
+    borderTitle: blanket => blanket ? "Border (around the blanket):" : "Border:",
+    borderNote: blanket => blanket
+      ? "Work the border around the joined blanket. Where two squares meet, work 1 st in the corner sp of each square; these are counted in the stitches along each side."
+      : "Work the border around the finished motif.",
+    borderHeading: n => `Border round ${n}:`,
+    borderCompactHeading: n => `B${n}:`,
+    sideCounts: (top, left) => left === undefined ? `${top} sts per side` : `${top} sts along top and bottom, ${left} along left and right`,
+    eachNext: (kind, n) => `${names[kind].abbr} in next ${n === 1 ? "st" : `${n} sts`}`,
+    skipStitches: n => `sk ${n === 1 ? "1 st" : `${n} sts`}`,
+    slipNext: n => `${slip} in next ${n === 1 ? "st" : `${n} sts`}`,
+    stitch: "st",
+    cornerStitch: "corner st",
+    topLeft: space => `top left ${space}`,
+    sentence: short => `${short.replace(/^([^a-z0-9]*)([a-z])/, (_, lead, letter) => lead + letter.toUpperCase())}.`, // "3 sc" stays lower case
+    fullStop: ".",
+    squaringRound: "squaring round",
+    start: text => `Start: ${text}`,
+    roundHeading: (n, label) => `Round ${n}${label ? ` (${label})` : ""}:`,
+    compactHeading: n => `R${n}:`,
+  };
+}
+
+const ZH_SHAPE_NAMES: Record<number, string> = { 3: "三角形", 4: "方块", 5: "五边形", 6: "六边形", 8: "八边形" };
+
+// Chinese patterns name the stitch itself, so the US/UK choice only shows up in the legend.
+function chineseLocale(terminology: Terminology): PatternLocale {
+  const names = ZH_STITCH_NAMES;
+  const shape = (sides: number) => ZH_SHAPE_NAMES[sides] ?? `${sides}边形`;
+  const count = (n: number, kind: StitchKind) => kind === 'chain' ? `锁${n}针` : `${n}针${names[kind].abbr}`;
+  const counts = (c: RoundCounts) => `[${[
+    ...(c.clusters !== undefined ? [`${c.clusters}组`] : []),
+    ...c.stitches.map(({ kind, count: n }) => count(n, kind)),
+    ...(c.corners ? [`${c.corners.count}个锁${c.corners.chains}针的角`] : []),
+    ...c.spaces.map(({ chains, count: n }) => `${n}个锁${chains}针的空隙`),
+    ...(c.picots > 0 ? [`${c.picots}个狗牙针`] : []),
+  ].join("，")}]`;
+  const english = englishLocale(terminology).names;
+  const moreTimes = (n: number) => n === 1 ? "再重复一次" : `再重复${n}次`;
+  return {
+    language: 'zh-CN',
+    terminology,
+    names,
+    styles: ['standard', 'compact'],
+    legendTitle: "针法说明",
+    noteTitle: "说明",
+    note: "图解为示意图。文字说明按经典祖母方块的标准钩法编写。",
+    legend: kinds => kinds.map(kind => kind === 'chain' || kind === 'slst' || kind === 'picot'
+      ? names[kind].name
+      : `${names[kind].abbr} = ${terminology === 'uk' ? "英式" : "美式"} ${english[kind].abbr}`).join("；"),
+    motifTitle: info => {
+      switch (info.kind) {
+        case 'rectangle': return `祖母长方形（${info.width} × ${info.height} 组）`;
+        case 'sunburst': return info.squared ? "太阳花祖母方块（枣形针花心，之后4个角）" : "太阳花圆形（枣形针花心）";
+        case 'flower': {
+          const petal = `${info.petals}片${names[info.stitch].abbr}花瓣`;
+          return info.squared ? `花朵祖母方块（${petal}，之后4个角）` : `祖母花（${petal}）`;
+        }
+        case 'solid': return `实心祖母${shape(info.sides)}（${info.sides}个角）`;
+        case 'circle-to-square': return `圆变方祖母方块（圆形部分每圈加${info.sides}处，之后4个角）`;
+        case 'circle': return `祖母圆形（每圈加${info.sides}处）`;
+        case 'polygon': return `祖母${shape(info.sides)}（${info.sides}个角）`;
+      }
+    },
+    summary: () => "本圈完成后共有", // The counts follow the summary
+    counts,
+    count,
+    chain: n => `锁${n}针`,
+    skip: n => `跳过${n}针`,
+    list: parts => parts.join("，"),
+    group: text => `（${text}）`,
+    chainSpace: chains => `锁${chains}针的空隙`,
+    space: "空隙",
+    betweenStitches: "针与针之间的空隙",
+    betweenGroups: "组与组之间的空隙",
+    inRing: what => `在环中钩${what}`,
+    inSame: (what, place) => `在同一${{ sp: "空隙", ch: "针锁针", st: "针目" }[place]}里钩${what}`,
+    inNext: (what, space) => `在下一个${space}里钩${what}`,
+    inChain: (what, which) => `在${which === 'first' ? "第一" : "最后一"}针锁针里钩${what}`,
+    eachAcross: (kind, total) => `每针里钩1针${names[kind].abbr}（共${total}针）`,
+    slipTo: space => `引拔至下一个${space}`,
+    slipInto: space => `在下一个${space}里引拔`,
+    slipEachTo: space => `每针引拔至下一个${space}`,
+    firstCorner: text => `${text}（第一个角）`,
+    rotate: text => `${text}；转过织片，沿起针锁针的另一侧钩织`,
+    startRing: chains => `锁${chains}针，引拔成环`,
+    startFoundation: chains => `起锁${chains}针`,
+    joinTop: chains => `在起立的第${chains}针锁针里引拔`,
+    joinFirst: kind => `在第1针${names[kind].abbr}里引拔`,
+    repeatFromStar: (body, tail) => `*${body}；从*处${tail}`,
+    moreTimes,
+    until: (place, n) => {
+      const target = {
+        corner: "重复至下一个角",
+        increase: "重复至下一个加针处",
+        quarter: "重复至四分之一圈处",
+        'first-ch': "重复至第一针锁针",
+        'last-ch': "重复至最后一针锁针",
+      }[place];
+      return n ? `${target}（${n}）` : target;
+    },
+    groups: n => `${n}组`,
+    rectangleCounts: (long, short) => `长边各${long}组，短边${short > 0 ? `各${short}组` : "无"}`,
+    repeatSteps: ({ from, to, times, endWith }) => {
+      const steps = from === to ? `第${from}步` : `第${from}–${to}步`;
+      return `${steps}${moreTimes(times - 1)}${endWith ? `，最后再钩一次第${endWith}步` : ""}`;
+    },
+    bracketRepeat: (inner, times) => `[${inner}] 共${times}次`,
+    materialsTitle: "材料：",
+    colorName: id => `${id}色`,
+    materials: (color, start) => {
+      const rounds = color.rounds.filter(n => n > 0);
+      return `${color.id}色（${color.value}）：${[
+        ...(color.rounds.includes(0) ? [start === 'foundation' ? "起针锁针" : "起针环"] : []),
+        ...(rounds.length > 0 ? [`第${rounds.join("、")}圈`] : []),
+        ...(color.border ? ["花边"] : []),
+      ].join("，")}`;
+    },
+    withColor: (color, text) => `用${color}${text}`,
+    joinColor: (color, place) => `在${place}里引拔接入${color}`,
+    fastenOff: color => color ? `${color}断线` : "断线，藏好线头",
+    groupColors: sides => `各组颜色（不用的线沿织片带过，包在针目里）：${sides.map((ids, i) => `第${i + 1}边 ${ids.join("-")}`).join("；")}`,
+    ring: "环",
+    lastFoundationChain: "起针的最后一针锁针",
+    any: space => `任意一个${space}`,
+    joiningTitle: method => `拼接（${{ none: "", 'join-as-you-go': "边钩边拼", 'whip-stitch': "卷针缝", 'slip-stitch-seam': "引拔针拼接", 'sc-seam': `${names.sc.abbr}拼接` }[method]}）：`,
+    joinNote: method => method === 'join-as-you-go'
+      ? "第一块完整钩完。之后每一块在钩最后一圈时与旁边已完成的方块拼接：转动织片，使图中标出的边对着已完成的方块。"
+      : "所有方块钩完后，再沿外圈把方块拼在一起。",
+    asWritten: (n, part) => part === 'rest' ? `按第${n}圈钩完本圈其余部分` : `按第${n}圈钩至第2个角`,
+    slipNeighbour: (space, meet) => meet ? "在已完成方块的拼接角处引拔" : `在已完成方块对应的${space}里引拔`,
+    joinCounts: (corners, sides) => `[${corners}处角拼接，${sides}处边拼接]`,
+    seamHold: "两块方块正面相对，边对齐",
+    seamStart: method => method === 'whip-stitch'
+      ? "缝针穿线，穿过两块的角空隙"
+      : `在两块的角空隙里一起引拔接线${method === 'sc-seam' ? `，锁1针，在同一空隙里钩1针${names.sc.abbr}` : ""}`,
+    seamAcross: (method, edge) => {
+      if (method === 'whip-stitch') return `逐针卷针缝两块对应针目的外侧半针（${edge}）`;
+      if (method === 'sc-seam') return `两块对应针目一起钩${names.sc.abbr}（${edge}）`;
+      return `两块对应针目的外侧半针一起引拔（${edge}）`;
+    },
+    seamEnd: method => method === 'whip-stitch'
+      ? "穿过两块的角空隙"
+      : `在两块的角空隙里一起${method === 'sc-seam' ? `钩1针${names.sc.abbr}` : "引拔"}`,
+    edgeCount: (n, short) => short === undefined ? `每边${n}针` : `长边${n}针，短边${short}针`,
+    blanketOrder: (method, rows, cols) => {
+      if (method === 'join-as-you-go') {
+        const twoSides = (rows - 1) * (cols - 1);
+        return `逐行拼接：${rows * cols - 1 - twoSides}块拼1条边（第一行除第一块外的方块，以及其余各行的第一块），${twoSides}块拼2条边`;
+      }
+      return `先把方块拼成${rows}行、每行${cols}块（${rows * (cols - 1)}条短缝），再把各行拼在一起（${rows - 1}条长缝）`;
+    },
+    borderTitle: blanket => blanket ? "花边（毯子外圈）：" : "花边：",
+    borderNote: blanket => blanket
+      ? "在拼好的毯子外圈钩花边。两块方块相接处，在每块的角空隙里各钩1针，这些针已计入每边的针数。"
+      : "在钩好的织片外圈钩花边。",
+    borderHeading: n => `花边第${n}圈：`,
+    borderCompactHeading: n => `花边第${n}圈：`,
+    sideCounts: (top, left) => left === undefined ? `每边${top}针` : `上下两边各${top}针，左右两边各${left}针`,
+    eachNext: (kind, n) => n === 1 ? `在下一针里钩1针${names[kind].abbr}` : `接下来${n}针各钩1针${names[kind].abbr}`,
+    skipStitches: n => `跳过${n}针`,
+    slipNext: n => `在接下来的${n}针里引拔`,
+    stitch: "针目",
+    cornerStitch: "角上的针目",
+    topLeft: space => `左上角的${space}`,
+    sentence: short => `${short}。`,
+    fullStop: "。",
+    squaringRound: "收方圈",
+    start: text => `起针：${text}`,
+    roundHeading: (n, label) => `第${n}圈${label ? `（${label}）` : ""}：`,
+    compactHeading: n => `第${n}圈：`,
+  };
+}
+
+export function patternLocale(language: PatternLanguage = 'en', terminology: Terminology = 'us'): PatternLocale {
+  return language === 'zh-CN' ? chineseLocale(terminology) : englishLocale(terminology);
+}
+
+// e.g. "[16 clusters, 48 dc, 4 ch-2 corners, 12 ch-1 spaces]"
+export function formatCounts(counts: RoundCounts, locale: PatternLocale = patternLocale()): string {
+  return locale.counts(counts);
+}
+
+// Terms that only appear in the abbreviated English styles, for the legend.
+const TERM_ABBREVIATIONS: Record<string, string> = {
+  beg: "beginning",
+  R: "round",
+  rep: "repeat",
+  sk: "skip",
+  sp: "space",
+  st: "stitch",
+};
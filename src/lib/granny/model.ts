@@ -0,0 +1,117 @@
+// ====== Types ======
+// These type definitions describe the data structure for our crochet pattern.
+export type Vec2 = { x: number; y: number };
+export type SideIndex = number; // 0-based, clockwise from the top side
+export type AnchorType =
+  | 'corner' | 'side-space' | 'center-ring' // Spaces made by chains or the ring
+  | 'stitch' | 'stitch-space'; // The top of a single stitch, or the gap between two stitches
+
+export interface RoundGeo {
+  r: number; // Circumradius of the round's bounding polygon
+  corners: Vec2[]; // Screen coordinates of the polygon corners, clockwise from top-left
+  center: Vec2;
+}
+
+export type StitchKind =
+  | "chain" | "slst" | "sc" | "hdc" | "dc" | "tr" | "dtr" // Basic stitches
+  | "picot" | "puff" | "popcorn" | "crab"; // Decorative stitches
+
+export interface Cluster {
+  id: string;
+  side: SideIndex;
+  centerPos: Vec2;
+  stitches: Stitch[];
+  anchorRef?: AnchorRef; // Reference to where this cluster anchors on the previous round
+}
+
+export interface AnchorRef {
+  roundId: number;
+  side: SideIndex;
+  slotIndex: number;
+  type: AnchorType; // The type of space this cluster is worked into.
+}
+
+export interface Stitch {
+  id: string;
+  kind: StitchKind;
+  pos: Vec2; // Position of the stitch
+}
+
+// An Anchor represents a point on a round where the *next* round can attach.
+export interface Anchor {
+    pos: Vec2;
+    type: AnchorType;
+}
+
+export interface Side {
+  side: SideIndex;
+  clusters: Cluster[];
+  cornerChains: Stitch[]; // Chains of the corner spaces at the start and end of the side
+  spaceChains: Stitch[]; // Chains (or picots) worked between neighbouring clusters
+  anchorsOnThisSide: Anchor[]; // Points for the *next* round to anchor to
+}
+
+export type RoundType = 'ring' | 'foundation' | 'polygon' | 'circle' | 'transition';
+
+// How the stitches of a round are worked into the previous round.
+export type RoundStyle =
+  | 'open' // Groups in the spaces, two groups in each corner (classic granny)
+  | 'solid' // One stitch in every stitch, groups only in the corners
+  | 'burst' // Single stitches worked straight into the ring
+  | 'puff' // One puff in each gap between the stitches, separated by chains
+  | 'petal' // One puff or popcorn petal per increase point, worked into the ring
+  | 'spaced'; // One group in each space, without increases
+
+export interface Round {
+  id: number; // 0-based round index
+  type: RoundType; // Foundation ring or chain, polygon round, circle round or circle-to-square transition
+  style: RoundStyle;
+  geo: RoundGeo;
+  sides: Side[];
+  foundation?: Stitch[]; // Chains of the foundation chain a rectangle starts from
+  join?: Stitch; // Slip stitch that closes the round
+}
+
+// ====== Stitch Definitions ======
+// Abbreviations and beginning-chain heights for every stitch kind.
+interface StitchDef {
+  abbr: string;
+  plural: string; // Abbreviation used for counts above one, e.g. "3 puff sts"
+  name: string;
+  turningChains: number; // Chains worked to reach the height of the stitch at the start of a round
+  chainCountsAsStitch: boolean; // Whether those chains replace the first stitch of the round
+}
+
+export const STITCH_DEFS: Record<StitchKind, StitchDef> = {
+  chain:   { abbr: "ch",      plural: "ch",       name: "Chain",                turningChains: 0, chainCountsAsStitch: false },
+  slst:    { abbr: "sl st",   plural: "sl sts",   name: "Slip Stitch",          turningChains: 0, chainCountsAsStitch: false },
+  sc:      { abbr: "sc",      plural: "sc",       name: "Single Crochet",       turningChains: 1, chainCountsAsStitch: false },
+  hdc:     { abbr: "hdc",     plural: "hdc",      name: "Half Double Crochet",  turningChains: 2, chainCountsAsStitch: true },
+  dc:      { abbr: "dc",      plural: "dc",       name: "Double Crochet",       turningChains: 3, chainCountsAsStitch: true },
+  tr:      { abbr: "tr",      plural: "tr",       name: "Treble Crochet",       turningChains: 4, chainCountsAsStitch: true },
+  dtr:     { abbr: "dtr",     plural: "dtr",      name: "Double Treble Crochet", turningChains: 5, chainCountsAsStitch: true },
+  picot:   { abbr: "picot",   plural: "picots",   name: "Picot (ch 3, sl st in 3rd ch from hook)", turningChains: 0, chainCountsAsStitch: false },
+  puff:    { abbr: "puff st", plural: "puff sts", name: "Puff Stitch",          turningChains: 2, chainCountsAsStitch: false },
+  popcorn: { abbr: "pc",      plural: "pc",       name: "Popcorn",              turningChains: 3, chainCountsAsStitch: false },
+  crab:    { abbr: "rev sc",  plural: "rev sc",   name: "Crab Stitch (reverse sc, worked left to right)", turningChains: 1, chainCountsAsStitch: false },
+};
+
+// The names a pattern gives the stitches; US terms by default, see the pattern locales.
+type StitchName = Pick<StitchDef, 'abbr' | 'plural' | 'name'>;
+export type StitchNames = Record<StitchKind, StitchName>;
+
+export const stitchCount = (n: number, kind: StitchKind, names: StitchNames = STITCH_DEFS) => `${n} ${n === 1 ? names[kind].abbr : names[kind].plural}`;
+
+// Stitch kinds that can make up a cluster, in the order they appear in the UI.
+export const CLUSTER_STITCH_KINDS: StitchKind[] = ["sc", "hdc", "dc", "tr", "dtr", "puff", "popcorn"];
+
+// ====== Cluster Recipe ======
+// Describes how a granny cluster and the chain spaces around it are worked.
+export interface ClusterRecipe {
+  stitchKind: StitchKind;
+  stitchesPerCluster: number;
+  cornerChains: number; // Chains between the two clusters of a corner
+  sideChains: number; // Chains between neighbouring clusters along a side
+}
+
+export const DEFAULT_RECIPE: ClusterRecipe = { stitchKind: "dc", stitchesPerCluster: 3, cornerChains: 2, sideChains: 1 };
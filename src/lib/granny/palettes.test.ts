@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { extractPalette, loadUserPalettes, normalizeHex, paletteToHex, paletteToJSON, parsePalettes, saveUserPalettes, uniquePaletteName } from "./palettes";
+
+describe("normalizeHex", () => {
+  it("expands short hex codes and lower-cases them", () => {
+    expect(normalizeHex("#ABC")).toBe("#aabbcc");
+    expect(normalizeHex("abc")).toBe("#aabbcc");
+    expect(normalizeHex(" #A1B2C3 ")).toBe("#a1b2c3");
+  });
+
+  it("rejects anything else", () => {
+    for (const value of ["", "#ab", "#abcd", "#abcdeg", "red", "rgb(0, 0, 0)"]) expect(normalizeHex(value)).toBeNull();
+  });
+});
+
+describe("parsePalettes", () => {
+  it("reads a JSON palette", () => {
+    expect(parsePalettes('{ "name": " Moss ", "colors": ["#1A4D3A", "#abc"] }')).toEqual([{ name: "Moss", colors: ["#1a4d3a", "#aabbcc"] }]);
+  });
+
+  it("reads a JSON list of palettes, naming the unnamed ones", () => {
+    expect(parsePalettes('[{ "name": "Sea", "colors": ["#003366"] }, { "colors": ["#fff"] }]')).toEqual([
+      { name: "Sea", colors: ["#003366"] },
+      { name: "Imported Palette 2", colors: ["#ffffff"] },
+    ]);
+  });
+
+  it("reads a JSON list of hex codes", () => {
+    expect(parsePalettes('["#000", "#fff"]', "Mono")).toEqual([{ name: "Mono", colors: ["#000000", "#ffffff"] }]);
+  });
+
+  it("reads hex codes separated by commas or spaces", () => {
+    expect(parsePalettes("#8b0000, ff6b35;#f7931e  FFDC00")[0].colors).toEqual(["#8b0000", "#ff6b35", "#f7931e", "#ffdc00"]);
+  });
+
+  it("keeps repeated colours, in order", () => {
+    expect(parsePalettes("#fff #000 #FFF")[0].colors).toEqual(["#ffffff", "#000000", "#ffffff"]);
+  });
+
+  it("rejects malformed JSON", () => {
+    expect(() => parsePalettes('{ "colors": ["#fff" ')).toThrow(SyntaxError);
+  });
+
+  it("rejects palettes without colours or with something that is not a hex colour", () => {
+    expect(() => parsePalettes('{ "name": "Empty" }')).toThrow("A palette needs a list of colors.");
+    expect(() => parsePalettes('{ "colors": [] }')).toThrow("A palette needs at least one color.");
+    expect(() => parsePalettes("#fff, #12")).toThrow('"#12" is not a hex color.');
+    expect(() => parsePalettes('[{ "colors": [255] }]')).toThrow('"255" is not a hex color.');
+  });
+
+  it("reads back what it shares", () => {
+    const palette = { name: "Sunset Glow", colors: ["#8b0000", "#ff6b35", "#fff8dc"] };
+    expect(parsePalettes(paletteToJSON(palette))).toEqual([palette]);
+    expect(parsePalettes(paletteToHex(palette), palette.name)).toEqual([palette]);
+  });
+});
+
+describe("uniquePaletteName", () => {
+  const palettes = [{ name: "Moss", colors: [] }, { name: "Moss (2)", colors: [] }];
+
+  it("numbers a name that is already taken", () => {
+    expect(uniquePaletteName("Moss", palettes)).toBe("Moss (3)");
+    expect(uniquePaletteName(" Sea ", palettes)).toBe("Sea");
+    expect(uniquePaletteName("  ", palettes)).toBe("My Palette");
+  });
+});
+
+describe("saveUserPalettes", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("keeps the palettes for the next visit", () => {
+    const stored = new Map<string, string>();
+    vi.stubGlobal("window", { localStorage: { getItem: (key: string) => stored.get(key) ?? null, setItem: (key: string, value: string) => stored.set(key, value) } });
+    expect(saveUserPalettes([{ name: "Moss", colors: ["#335522"] }])).toBe(true);
+    expect(loadUserPalettes()).toEqual([{ name: "Moss", colors: ["#335522"] }]);
+  });
+
+  it("reports storage that refuses them instead of throwing", () => {
+    vi.stubGlobal("window", { localStorage: { setItem: () => { throw new DOMException("Full", "QuotaExceededError"); } } });
+    expect(saveUserPalettes([{ name: "Moss", colors: ["#335522"] }])).toBe(false);
+  });
+});
+
+// `count` pixels of each colour, as RGBA bytes; colours without alpha are opaque.
+const pixels = (...colors: [number[], number][]) =>
+  new Uint8ClampedArray(colors.flatMap(([[r, g, b, a = 255], count]) => Array.from({ length: count }, () => [r, g, b, a]).flat()));
+
+describe("extractPalette", () => {
+  it("finds the colours of the photo, darkest first", () => {
+    expect(extractPalette(pixels([[255, 255, 255], 50], [[200, 0, 0], 30], [[0, 0, 80], 20]), 3)).toEqual(["#000050", "#c80000", "#ffffff"]);
+  });
+
+  it("averages close shades into one colour", () => {
+    expect(extractPalette(pixels([[250, 250, 250], 10], [[254, 254, 254], 10], [[0, 0, 0], 20]), 2)).toEqual(["#000000", "#fcfcfc"]);
+  });
+
+  it("gives at most `count` colours, and fewer when the photo has fewer", () => {
+    const photo = pixels([[255, 0, 0], 10], [[0, 255, 0], 10], [[0, 0, 255], 10], [[255, 255, 0], 10]);
+    expect(extractPalette(photo, 2)).toHaveLength(2);
+    expect(extractPalette(pixels([[10, 20, 30], 40]), 5)).toEqual(["#0a141e"]);
+  });
+
+  it("ignores transparent pixels", () => {
+    expect(extractPalette(pixels([[255, 0, 0, 0], 90], [[0, 128, 0], 10]), 3)).toEqual(["#008000"]);
+    expect(extractPalette(pixels([[255, 0, 0, 10], 10]), 3)).toEqual([]);
+  });
+});
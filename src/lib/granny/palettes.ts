@@ -0,0 +1,184 @@
+import type { Vec2, Cluster, Round } from "./model";
+
+// ====== Color Palettes ======
+export interface ColorPalette {
+  name: string;
+  colors: string[]; // Hex codes, "#rrggbb"
+}
+
+export const colorPalettes: ColorPalette[] = [
+    { name: "Sunset Glow", colors: ["#8b0000", "#ff6b35", "#f7931e", "#ffdc00", "#fff8dc"] },
+    { name: "Ocean Blues", colors: ["#003366", "#0066cc", "#3399ff", "#66ccff", "#e6f7ff"] },
+    { name: "Forest Greens", colors: ["#1a4d3a", "#2d7d32", "#66bb6a", "#a5d6a7", "#e8f5e8"] },
+    { name: "Classic Vintage", colors: ["#8b4513", "#daa520", "#cd853f", "#f5deb3", "#fff8dc"] },
+    { name: "Purple Dreams", colors: ["#4a148c", "#7b1fa2", "#ab47bc", "#ce93d8", "#f3e5f5"] },
+    { name: "Default", colors: [] } // For the original generative colors
+];
+
+export const paletteColors = (name: string, palettes: ColorPalette[] = colorPalettes): string[] =>
+  (palettes.find(p => p.name === name) ?? colorPalettes.find(p => p.name === "Default"))!.colors;
+
+// The colour a round is worked in: the palette is cycled sequentially, or bounced back and forth when alternating.
+// Without palette colours every round gets its own generated hue.
+export function roundColor(roundId: number, colors: string[], repetitionMethod: string): string {
+  const n = colors.length;
+  if (n === 0) return `hsl(${(roundId * 55 + 180) % 360} 70% 40%)`;
+  if (repetitionMethod === 'alternating' && n > 1) {
+    const period = 2 * (n - 1);
+    const effectiveIndex = roundId % period;
+    return colors[effectiveIndex < n ? effectiveIndex : period - effectiveIndex];
+  }
+  return colors[roundId % n];
+}
+
+// Colours picked by hand on top of the palette: whole rounds by round id, single clusters by cluster id.
+export interface ColorAssignments {
+  rounds: Record<number, string>;
+  clusters: Record<string, string>;
+}
+
+export const NO_COLOR_ASSIGNMENTS: ColorAssignments = { rounds: {}, clusters: {} };
+
+// The cluster whose centre is closest to a point of the chart, if any is within reach.
+export function clusterAt(rounds: Round[], point: Vec2, reach: number): Cluster | undefined {
+  let closest: Cluster | undefined;
+  let closestDistance = reach;
+  rounds.forEach(round => round.sides.forEach(side => side.clusters.forEach(cluster => {
+    const distance = Math.hypot(cluster.centerPos.x - point.x, cluster.centerPos.y - point.y);
+    if (distance < closestDistance) {
+      closest = cluster;
+      closestDistance = distance;
+    }
+  })));
+  return closest;
+}
+
+// === User Palettes ===
+// Palettes made in the editor are kept in the browser's local storage, next to the built-in ones.
+const USER_PALETTES_KEY = "granny-square-palettes";
+
+export function loadUserPalettes(): ColorPalette[] {
+  try {
+    const stored = window.localStorage.getItem(USER_PALETTES_KEY);
+    return stored ? parsePalettes(stored) : [];
+  } catch {
+    return []; // Unreadable storage starts over with no user palettes
+  }
+}
+
+// False when the browser refuses to store them (full, or storage turned off).
+export function saveUserPalettes(palettes: ColorPalette[]): boolean {
+  try {
+    window.localStorage.setItem(USER_PALETTES_KEY, JSON.stringify(palettes));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// "#ABC", "abc" and "#aabbcc" all become "#aabbcc"; anything else is not a hex colour.
+export function normalizeHex(value: string): string | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim());
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, digit => digit + digit) : match[1];
+  return `#${hex.toLowerCase()}`;
+}
+
+function paletteFromJSON(value: unknown, fallbackName: string): ColorPalette {
+  const palette = Array.isArray(value) ? { name: fallbackName, colors: value } : value as Partial<ColorPalette>;
+  if (!palette || !Array.isArray(palette.colors)) throw new Error("A palette needs a list of colors.");
+  const colors = palette.colors.map(color => {
+    const hex = typeof color === 'string' ? normalizeHex(color) : null;
+    if (!hex) throw new Error(`"${color}" is not a hex color.`);
+    return hex;
+  });
+  if (colors.length === 0) throw new Error("A palette needs at least one color.");
+  return { name: typeof palette.name === 'string' && palette.name.trim() ? palette.name.trim() : fallbackName, colors };
+}
+
+// Reads shared palettes: a JSON palette, a JSON list of palettes or of hex codes, or hex codes separated by commas or spaces.
+export function parsePalettes(text: string, fallbackName: string = "Imported Palette"): ColorPalette[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    const value: unknown = JSON.parse(trimmed);
+    if (Array.isArray(value) && (value.length === 0 || value.some(item => typeof item === 'object' && item !== null))) {
+      return value.map((item, i) => paletteFromJSON(item, `${fallbackName} ${i + 1}`));
+    }
+    return [paletteFromJSON(value, fallbackName)];
+  }
+  return [paletteFromJSON(trimmed.split(/[\s,;]+/).filter(Boolean), fallbackName)];
+}
+
+export const paletteToJSON = (palette: ColorPalette) => JSON.stringify({ name: palette.name, colors: palette.colors }, null, 2);
+export const paletteToHex = (palette: ColorPalette) => palette.colors.join(", ");
+
+// Names identify palettes in the selector, so a taken name gets a number.
+export function uniquePaletteName(name: string, palettes: ColorPalette[]): string {
+  const base = name.trim() || "My Palette";
+  if (!palettes.some(p => p.name === base)) return base;
+  let n = 2;
+  while (palettes.some(p => p.name === `${base} (${n})`)) n++;
+  return `${base} (${n})`;
+}
+
+// === Photo Palettes ===
+const rgbToHex = ([r, g, b]: number[]) => `#${[r, g, b].map(v => Math.round(v).toString(16).padStart(2, "0")).join("")}`;
+export const luminance = ([r, g, b]: number[]) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+// Median cut quantization: the box of pixels with the widest spread in one channel is split at its
+// median until there are `count` boxes, and each box gives its average colour. A few k-means passes
+// then move those colours to the centres of the pixels closest to them. Darkest colour first, like
+// the built-in palettes. Transparent pixels are ignored.
+export function extractPalette(pixels: Uint8ClampedArray, count: number): string[] {
+  const colors: number[][] = [];
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] >= 128) colors.push([pixels[i], pixels[i + 1], pixels[i + 2]]);
+  }
+  if (colors.length === 0) return [];
+
+  const boxes = [colors];
+  while (boxes.length < count) {
+    let widest = { box: -1, channel: 0, range: 0 };
+    boxes.forEach((box, i) => [0, 1, 2].forEach(channel => {
+      const values = box.map(color => color[channel]);
+      const range = Math.max(...values) - Math.min(...values);
+      if (range > widest.range) widest = { box: i, channel, range };
+    }));
+    if (widest.box < 0) break; // Every box is a single colour
+    const sorted = [...boxes[widest.box]].sort((a, b) => a[widest.channel] - b[widest.channel]);
+    const median = sorted.length >> 1;
+    boxes.splice(widest.box, 1, sorted.slice(0, median), sorted.slice(median));
+  }
+
+  const average = (box: number[][]) => [0, 1, 2].map(channel => box.reduce((sum, color) => sum + color[channel], 0) / box.length);
+  let centers = boxes.map(average);
+  for (let pass = 0; pass < 5; pass++) {
+    const groups: number[][][] = centers.map(() => []);
+    colors.forEach(color => {
+      const distances = centers.map(center => (center[0] - color[0]) ** 2 + (center[1] - color[1]) ** 2 + (center[2] - color[2]) ** 2);
+      groups[distances.indexOf(Math.min(...distances))].push(color);
+    });
+    centers = groups.filter(group => group.length > 0).map(average);
+  }
+  return [...new Set(centers.sort((a, b) => luminance(a) - luminance(b)).map(rgbToHex))];
+}
+
+// Draws a photo small enough to quantize quickly and reads back its pixels.
+export async function photoPixels(file: File, maxSize: number = 120): Promise<Uint8ClampedArray> {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const fit = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * fit));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * fit));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("This browser can't read the photo.");
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
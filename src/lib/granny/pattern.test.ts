@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import { type ClusterRecipe, type Round, DEFAULT_RECIPE } from "./model";
+import { type MotifOptions, DEFAULT_MOTIF, buildRounds, planRounds } from "./rounds";
+import { roundCounts } from "./instructions";
+import { type PatternLanguage, type Terminology, formatCounts, patternLocale } from "./locale";
+import type { InstructionStyle } from "./document";
+import { buildPattern, renderPatternText } from "./pattern";
+
+const compile = (n: number, motif: Partial<MotifOptions> = {}, recipe: ClusterRecipe = DEFAULT_RECIPE, picotEdge: boolean = false): Round[] =>
+  buildRounds(planRounds({ ...DEFAULT_MOTIF, ...motif }, n, 24, 24), { x: 0, y: 0 }, 24, 24, recipe, picotEdge);
+
+const counts = (round: Round) => formatCounts(roundCounts(round, DEFAULT_RECIPE));
+const patternText = (rounds: Round[], style: InstructionStyle = 'beginner', language: PatternLanguage = 'en', terminology: Terminology = 'us', colors: string[] = []) =>
+  renderPatternText(buildPattern(rounds, DEFAULT_RECIPE, patternLocale(language, terminology), colors)!, style);
+
+// The numbered steps of every round, e.g. [["1", "2", "3"], ["1", "2", "3", "4", "5"]].
+const stepNumbers = (text: string) => text.split(/\nRound \d+[^\n]*:\n/).slice(1)
+  .map(round => round.split("\n").map(line => line.match(/^(\d+)\. /)?.[1]).filter(Boolean));
+
+describe("roundCounts", () => {
+  it("counts the groups, stitches, corners and spaces of a granny round", () => {
+    const rounds = compile(3);
+    expect(counts(rounds[1])).toBe("[4 clusters, 12 dc, 4 ch-2 corners]");
+    expect(counts(rounds[3])).toBe("[12 clusters, 36 dc, 4 ch-2 corners, 8 ch-1 spaces]");
+  });
+
+  it("counts stitches instead of groups in a solid granny", () => {
+    const rounds = compile(3, { motif: 'solid-granny' });
+    expect(counts(rounds[2])).toBe("[28 dc, 4 ch-2 corners]");
+  });
+
+  it("counts the increase spaces of a circle together with its other spaces", () => {
+    const rounds = compile(2, { motif: 'circle', circleSegments: 6 });
+    expect(counts(rounds[2])).toBe("[12 clusters, 36 dc, 12 ch-1 spaces]");
+  });
+
+  it("counts the picots of a picot edge", () => {
+    const rounds = compile(2, {}, DEFAULT_RECIPE, true);
+    expect(counts(rounds[2])).toBe("[8 clusters, 24 dc, 4 ch-2 corners, 4 picots]");
+  });
+});
+
+describe("buildPattern", () => {
+  it("numbers the rounds and keeps their counts as data", () => {
+    const pattern = buildPattern(compile(3), DEFAULT_RECIPE)!;
+    expect(pattern.rounds.map(round => round.number)).toEqual([1, 2, 3]);
+    expect(pattern.rounds[2].counts).toEqual({
+      clusters: 12,
+      stitches: [{ kind: 'dc', count: 36 }],
+      corners: { chains: 2, count: 4 },
+      spaces: [{ chains: 1, count: 8 }],
+      picots: 0,
+    });
+  });
+
+  it("has no pattern without rounds", () => {
+    expect(buildPattern([], DEFAULT_RECIPE)).toBeNull();
+  });
+
+  it.each(['granny', 'solid-granny', 'rectangle', 'circle', 'circle-to-square', 'sunburst', 'flower'] as const)("numbers the steps of every %s round from 1", motif => {
+    const text = patternText(compile(4, { motif }));
+    const rounds = stepNumbers(text);
+    expect(rounds).toHaveLength(4);
+    rounds.forEach(steps => expect(steps).toEqual(steps.map((_, i) => String(i + 1))));
+  });
+
+  it("ends every round with its exact counts", () => {
+    const text = patternText(compile(3));
+    expect(text).toContain("👉 You now have 12 groups of 3 dc and 4 corner chain-2 spaces. [12 clusters, 36 dc, 4 ch-2 corners, 8 ch-1 spaces]");
+  });
+});
+
+describe("renderPatternText", () => {
+  it("writes full sentences and a summary in the beginner style", () => {
+    const text = patternText(compile(3), 'beginner');
+    expect(text).toContain("Start: Chain 4. Join with a slip stitch to the first chain to form a ring.");
+    expect(text).toContain("\n3. Chain 1. In the next chain-1 space along the side, work 3 dc.\n");
+    expect(text).toContain("👉 You now have 12 groups of 3 dc");
+  });
+
+  it("abbreviates the numbered steps in the standard style", () => {
+    const text = patternText(compile(3), 'standard');
+    expect(text).toContain("Start: Ch 4, join with sl st to form a ring.");
+    expect(text).toContain("Round 3:\n1. Sl st to next ch-2 sp.\n2. (Ch 3, 2 dc, ch 2, 3 dc) in same sp.\n");
+    expect(text).toContain("\n5. Rep steps 3–4 2 more times, then step 3 once more.\n");
+    expect(text).not.toContain("👉");
+  });
+
+  it("writes every round on one line in the compact style", () => {
+    const lines = patternText(compile(3), 'compact').split("\n");
+    expect(lines).toHaveLength(5);
+    expect(lines[4]).toBe("R3: sl st to next ch-2 sp, (ch 3, 2 dc, ch 2, 3 dc) in same sp, [ch 1, 3 dc in next ch-1 sp, ch 1, (3 dc, ch 2, 3 dc) in next ch-2 sp] 3 times, "
+      + "ch 1, 3 dc in next ch-1 sp, ch 1, join with sl st to top of beg ch-3, fasten off and weave in ends. [12 clusters, 36 dc, 4 ch-2 corners, 8 ch-1 spaces]");
+  });
+
+  it("works the side step once more after repeating the sides around", () => {
+    const repeat = "Repeat steps 3 and 4 around, then work step 3 once more along the last side.";
+    expect(patternText(compile(3), 'beginner')).toContain(`\n5. ${repeat}\n`);
+    expect(patternText(compile(3, { motif: 'solid-granny' }), 'beginner')).toContain(`\n5. ${repeat}\n`);
+    expect(patternText(compile(4, { motif: 'circle-to-square' }), 'beginner')).toContain(
+      "\n5. Repeat steps 3 and 4 around, working the corners in the taller stitch so the circle squares off, then work step 3 once more along the last side.\n");
+  });
+
+  it("says once more for a single repeat", () => {
+    const triangle = compile(3, { sideCount: 3 });
+    expect(patternText(triangle, 'beginner')).toContain("\n2. *Work 3 dc into the ring, chain 2.* Repeat once more.\n");
+    expect(patternText(triangle, 'standard')).toContain("\n5. Rep steps 3–4 once more, then step 3 once more.\n");
+    expect(patternText(triangle, 'standard', 'zh-CN')).toContain("\n2. *在环中钩3针长针，锁2针；从*处再重复一次。\n");
+  });
+});
+
+describe("patternLocale", () => {
+  it("writes UK stitch names, one size up from the US ones", () => {
+    const text = patternText(compile(2), 'standard', 'en', 'uk');
+    expect(text).toContain("Start: Ch 4, join with ss to form a ring.");
+    expect(text).toContain("\n2. (Ch 3, 2 tr, ch 2, 3 tr) in same sp.\n");
+    expect(text).toContain("[8 clusters, 24 tr, 4 ch-2 corners, 4 ch-1 spaces]");
+    expect(text).not.toMatch(/\b(dc|sl st)\b/);
+  });
+
+  it("keeps the full UK names in the beginner style", () => {
+    const text = patternText(compile(2), 'beginner', 'en', 'uk');
+    expect(text).toContain("1. Chain 3 (counts as a tr), then work 2 tr into the ring, then chain 2.");
+  });
+
+  it("writes the pattern in Simplified Chinese", () => {
+    const lines = patternText(compile(2), 'standard', 'zh-CN').split("\n").filter(Boolean);
+    expect(lines.slice(0, 3)).toEqual(["祖母方块（4个角）", "起针：锁4针，引拔成环。", "第1圈："]);
+    expect(lines).toContain("2. 在同一空隙里钩（锁3针，2针长针，锁2针，3针长针）。");
+    expect(lines).toContain("4. 第3步再重复2次。");
+    expect(lines.at(-1)).toBe("[8组，24针长针，4个锁2针的角，4个锁1针的空隙]");
+  });
+
+  it("starts and sums up the Chinese beginner text once", () => {
+    const lines = patternText(compile(2), 'beginner', 'zh-CN').split("\n").filter(Boolean);
+    expect(lines[1]).toBe("起针：锁4针，引拔成环。");
+    expect(lines).toContain("👉 本圈完成后共有 [4组，12针长针，4个锁2针的角]");
+  });
+
+  it("gives Chinese stitches the same names in either terminology", () => {
+    expect(patternText(compile(2), 'standard', 'zh-CN', 'uk')).toBe(patternText(compile(2), 'standard', 'zh-CN', 'us'));
+  });
+});
+
+describe("colour changes", () => {
+  const colors = ['#ff0000', '#ff0000', '#00ff00', '#ff0000'];
+
+  it("letters the colours in the order they are first used", () => {
+    const pattern = buildPattern(compile(3), DEFAULT_RECIPE, patternLocale(), colors)!;
+    expect(pattern.colors).toEqual([
+      { id: 'A', value: '#ff0000', rounds: [0, 1, 3] },
+      { id: 'B', value: '#00ff00', rounds: [2] },
+    ]);
+    expect(patternText(compile(3), 'beginner', 'en', 'us', colors)).toContain("Materials:\n- Color A (#ff0000): starting ring, rounds 1, 3\n- Color B (#00ff00): round 2");
+  });
+
+  it("fastens off before every new colour and joins it in the first space", () => {
+    const rounds = patternText(compile(3), 'beginner', 'en', 'us', colors).split(/\n(?=Round \d)/);
+    expect(rounds[1]).toContain("\n4. Fasten off Color A.\n");
+    expect(rounds[2]).toMatch(/^Round 2:\n1\. Join Color B with a slip stitch in any corner chain-2 space\.\n/);
+    expect(rounds[2]).toContain("\n6. Fasten off Color B.\n");
+    expect(rounds[3]).toContain("\n7. Fasten off and weave in all the ends.\n");
+  });
+
+  it("writes the colour changes in the abbreviated styles and in Chinese", () => {
+    const compact = patternText(compile(3), 'compact', 'en', 'uk', colors).split("\n");
+    expect(compact).toContain("Start: With Colour A, ch 4, join with ss to form a ring.");
+    expect(compact.find(line => line.startsWith("R2:"))).toMatch(/^R2: join Colour B with ss in any ch-2 sp, .*, fasten off Colour B\. \[/);
+    const chinese = patternText(compile(3), 'compact', 'zh-CN', 'us', colors);
+    expect(chinese).toContain("材料：\n- A色（#ff0000）：起针环，第1、3圈\n- B色（#00ff00）：第2圈");
+    expect(chinese).toContain("第2圈： 在任意一个锁2针的空隙里引拔接入B色，");
+    expect(chinese).toContain("，断线，藏好线头。 [12组，");
+  });
+
+  it("only fastens off at the end of a motif in one colour", () => {
+    const text = patternText(compile(3), 'beginner', 'en', 'us', Array(4).fill('#ff0000'));
+    expect(text.match(/Fasten off/g)).toEqual(["Fasten off"]);
+    expect(text).not.toContain("Join Color");
+  });
+});
@@ -0,0 +1,549 @@
+import { type StitchKind, type Round, STITCH_DEFS, type ClusterRecipe, stitchCount } from "./model";
+import { ringChainCount } from "./geometry";
+import { solidCornerSize } from "./rounds";
+import { type BorderStyle, type BorderOptions, NO_BORDER, type BorderSide, type BorderRound, BORDER_STITCH_KINDS, PICOT_EVERY, SHELL_SIZE, cornerFlank, borderSideOps, borderSideStitches, planBorder, borderProblem, borderStart } from "./border";
+import { type PatternLocale, patternLocale } from "./locale";
+import { beginningInstruction, cornerTerms, cornerInstruction, spaceInstruction, sideInstruction, isRectangle, rectangleSides, rectangleSideCounts, totalClusters, totalStitches, roundCounts, motifTitleInfo } from "./instructions";
+import { type StitchOp, type PatternStep, type PatternRound, type PatternDocument, type PatternColor, type InstructionStyle, chainOp, stitchOp, skipOp, JOIN_OPS, opsText, beginningOps, cornerOps, spaceOps, starRepeat, stepBuilder, sideShort, type PatternJoining, type PatternBorder } from "./document";
+import { type JoinOptions, NO_JOINING, joinedSides, joinAsYouGoProblem, edgeStitches } from "./joining";
+
+// ====== Written Pattern Generator ======
+// Collects every stitch kind used in the compiled rounds, for the abbreviation legend.
+export function collectStitchKinds(rounds: Round[], border: BorderStyle[] = []): StitchKind[] {
+  const kinds = new Set<StitchKind>(["chain", "slst"]);
+  rounds.forEach(round => round.sides.forEach(side => {
+    side.clusters.forEach(cluster => cluster.stitches.forEach(stitch => kinds.add(stitch.kind)));
+    side.spaceChains.forEach(stitch => kinds.add(stitch.kind));
+  }));
+  border.forEach(style => BORDER_STITCH_KINDS[style].forEach(kind => kinds.add(kind)));
+  return (Object.keys(STITCH_DEFS) as StitchKind[]).filter(kind => kinds.has(kind));
+}
+
+export function buildPattern(rounds: Round[], recipe: ClusterRecipe, locale: PatternLocale = patternLocale(), roundColors: string[] = [], clusterColors: Record<string, string> = {}, joinOptions: JoinOptions = NO_JOINING, borderOptions: BorderOptions = NO_BORDER): PatternDocument | null {
+  if (!rounds || rounds.length === 0) return null;
+
+  const names = locale.names;
+  const { step, starred, repeatStep, repeatAround } = stepBuilder(locale);
+  const ops = (list: StitchOp[]) => opsText(list, locale);
+  const grouped = (list: StitchOp[]) => locale.group(ops(list));
+
+  // Colours are lettered in the order they are first used, round 0 (the ring or foundation chain) included.
+  const colors: PatternColor[] = [];
+  const colorFor = (value: string) => {
+    let color = colors.find(other => other.value === value);
+    if (!color) {
+      color = { id: String.fromCharCode(65 + colors.length), value, rounds: [] };
+      colors.push(color);
+    }
+    return color;
+  };
+  const letterFor = (value: string, n: number) => {
+    const color = colorFor(value);
+    if (!color.rounds.includes(n)) color.rounds.push(n);
+    return color.id;
+  };
+  const colorIds: string[] = [];
+  const groupColorIds: (string[][] | undefined)[] = [];
+  roundColors.slice(0, rounds.length).forEach((value, n) => {
+    colorIds[n] = letterFor(value, n);
+    // Groups picked out in another colour, side by side in the order the round is worked.
+    const sides = [...rounds[n].sides.slice(1), rounds[n].sides[0]].map(side =>
+      side.clusters.map(cluster => clusterColors[cluster.id] ? letterFor(clusterColors[cluster.id], n) : colorIds[n]));
+    if (sides.some(ids => ids.some(id => id !== colorIds[n]))) groupColorIds[n] = sides;
+  });
+  const colorName = (n: number) => colorIds[n] === undefined ? undefined : locale.colorName(colorIds[n]);
+  // The border is lettered last, after every round of the motif.
+  const borderValue = borderOptions.color ?? roundColors[rounds.length - 1];
+  let borderId: string | undefined;
+  if (borderOptions.rounds.length > 0 && borderValue !== undefined && !borderProblem(rounds[rounds.length - 1], borderOptions)) {
+    const color = colorFor(borderValue);
+    color.border = true;
+    borderId = color.id;
+  }
+  const changesAfter = (n: number) => colorIds[n + 1] !== undefined && colorIds[n + 1] !== colorIds[n];
+
+  const foundation = rounds[0].foundation;
+  const ringChains = ringChainCount(rounds[0].sides.length);
+  const first = colorName(0);
+  // The first colour is named as the yarn is picked up, and fastened off at once when round 1 changes colour.
+  const startStep = (text: string, short: string, ops: StitchOp[]) => {
+    const withFirst = (what: string) => first ? locale.withColor(first, what) : what;
+    const off = first && changesAfter(0) ? [locale.fastenOff(first)] : [];
+    return step([withFirst(text), ...off].map(locale.sentence).join(" "), locale.list([withFirst(short), ...off]), ops);
+  };
+  const start = foundation
+    ? startStep(`chain ${foundation.length} for the foundation chain`, locale.startFoundation(foundation.length), [chainOp(foundation.length)])
+    : startStep(`chain ${ringChains}. Join with a slip stitch to the first chain to form a ring`, locale.startRing(ringChains), [chainOp(ringChains), ...JOIN_OPS]);
+
+  const patternRounds = rounds.slice(1).map((round): PatternRound => {
+    const n = round.id;
+    const sideCount = round.sides.length;
+    const prev = rounds[round.id - 1];
+    const prevTerms = cornerTerms(prev);
+    const terms = cornerTerms(round);
+    const kind = round.sides[1].clusters[0].stitches[0].kind;
+    const group = stitchCount(recipe.stitchesPerCluster, kind, names);
+    const groupShort = locale.count(recipe.stitchesPerCluster, kind);
+    const groupOp = stitchOp(kind, recipe.stitchesPerCluster);
+    const picot = round.sides[0].spaceChains.some(stitch => stitch.kind === 'picot');
+    const sideClusters = round.sides[0].clusters.length - 2;
+    const beginning = STITCH_DEFS[kind].chainCountsAsStitch
+      ? `the top of the beginning chain-${STITCH_DEFS[kind].turningChains}`
+      : `the first ${names[kind].abbr}`;
+    const join = STITCH_DEFS[kind].chainCountsAsStitch ? locale.joinTop(STITCH_DEFS[kind].turningChains) : locale.joinFirst(kind);
+    const withSpace = (text: string, picot: boolean) => locale.list([ops(spaceOps(recipe, picot)), text]);
+    // Slipping over the first group of the previous round lands in the space after it.
+    const slipOps = [stitchOp('slst', prev.sides[1]?.clusters[0]?.stitches.length || 1)];
+
+    let label: string | undefined;
+    let steps: PatternStep[];
+    let entry: { space: string; sp: string; firstCorner?: boolean } | undefined; // Where the round starts, for joining a new colour
+
+    if (round.style === 'burst') {
+      const burst = beginningOps(kind, totalStitches(round));
+      steps = [
+        step(`${beginningInstruction(kind, totalStitches(round), names)} into the ring.`, locale.inRing(ops(burst)), burst),
+        step(`Join with a slip stitch to ${beginning}.`, join, JOIN_OPS),
+      ];
+    } else if (round.style === 'puff' || round.style === 'spaced') {
+      // Puffs go between the stitches of the previous round, groups into its chain spaces.
+      const space = round.style === 'puff' ? "space between two stitches" : prevTerms.space;
+      const sp = round.style === 'puff' ? locale.betweenStitches : locale.chainSpace(prevTerms.chains);
+      const clusterSize = round.sides[0].clusters[0].stitches.length;
+      const group = stitchCount(clusterSize, kind, names);
+      const repeats = totalClusters(round) - 1;
+      entry = { space, sp };
+      steps = [
+        step(`Slip stitch into the next ${space}.`, locale.slipInto(sp), [stitchOp('slst', 1)]),
+        step(`${beginningInstruction(kind, clusterSize, names)} into the same space.`, locale.inSame(ops(beginningOps(kind, clusterSize)), 'sp'), beginningOps(kind, clusterSize)),
+        starred(`${spaceInstruction(recipe, picot)} Work ${group} into the next ${space}.`,
+          withSpace(locale.inNext(locale.count(clusterSize, kind), sp), picot),
+          [...spaceOps(recipe, picot), stitchOp(kind, clusterSize)], repeats),
+        step(`${spaceInstruction(recipe, picot)} Join with a slip stitch to ${beginning}.`, withSpace(join, picot), [...spaceOps(recipe, picot), ...JOIN_OPS]),
+      ];
+    } else if (round.style === 'solid' && n > 1) {
+      // Solid rounds only have groups in the corners; the sides are worked stitch by stitch.
+      const cornerRecipe = { ...recipe, stitchesPerCluster: solidCornerSize(recipe) };
+      const sideStitchCount = round.sides[0].clusters.length - 2;
+      entry = { space: `corner chain-${prevTerms.chains} space`, sp: locale.chainSpace(prevTerms.chains) };
+      steps = [
+        step(`Slip stitch in each stitch across to the next corner chain-${prevTerms.chains} space.`, locale.slipEachTo(locale.chainSpace(prevTerms.chains)), slipOps),
+        step(cornerInstruction(cornerRecipe, terms, true, kind, names), locale.inSame(grouped(cornerOps(cornerRecipe, terms, true)), 'sp'), cornerOps(cornerRecipe, terms, true)),
+        step(`Work 1 ${names[kind].abbr} in each stitch along the side (${stitchCount(sideStitchCount, kind, names)}).`,
+          locale.eachAcross(kind, sideStitchCount), [stitchOp(kind, 1)], sideStitchCount),
+        step(cornerInstruction(cornerRecipe, terms, false, kind, names), locale.inNext(grouped(cornerOps(cornerRecipe, terms)), locale.chainSpace(terms.chains)), cornerOps(cornerRecipe, terms)),
+        repeatAround({ from: 3, to: 4, times: sideCount - 1, endWith: 3 }),
+        step(`Join with a slip stitch to ${beginning}.`, join, JOIN_OPS),
+      ];
+    } else if (n === 1 && foundation) {
+      // Worked around both sides of the foundation chain, three groups in each end chain.
+      const middleGroups = round.sides[0].clusters.length - 2;
+      const acrossChain = `*Skip 2 chains, work ${group} into the next chain.* Repeat until you reach the`;
+      const acrossOps = [skipOp(2), groupOp];
+      const acrossShort = (end: 'first-ch' | 'last-ch') => locale.repeatFromStar(
+        locale.list([locale.skip(2), locale.inNext(groupShort, names.chain.abbr)]), locale.until(end, locale.groups(middleGroups)));
+      const endOps = [groupOp, chainOp(terms.chains), groupOp, chainOp(terms.chains), groupOp];
+      steps = [
+        step(`${beginningInstruction(kind, recipe.stitchesPerCluster, names)} into the last foundation chain, then chain ${terms.chains}.`,
+          locale.list([locale.inChain(ops(beginningOps(kind, recipe.stitchesPerCluster)), 'last'), locale.chain(terms.chains)]),
+          [...beginningOps(kind, recipe.stitchesPerCluster), chainOp(terms.chains)]),
+        step(`Work ${group} into the same chain. Turn the work so you can go along the other side of the foundation chain.`,
+          locale.rotate(locale.inSame(groupShort, 'ch')), [groupOp]),
+        ...(middleGroups > 0 ? [step(`${acrossChain} first foundation chain (${middleGroups} groups).`, acrossShort('first-ch'), acrossOps, middleGroups)] : []),
+        step(`Skip 2 chains, then in the first foundation chain work ${group}, chain ${terms.chains}, ${group}, chain ${terms.chains}, ${group}. (This makes the two corners at this end.)`,
+          locale.list([locale.skip(2), locale.inChain(grouped(endOps), 'first')]), [skipOp(2), ...endOps]),
+        ...(middleGroups > 0 ? [step(`${acrossChain} last foundation chain (${middleGroups} groups).`, acrossShort('last-ch'), acrossOps, middleGroups)] : []),
+        step(`Skip 2 chains, work ${group} into the last foundation chain, then chain ${terms.chains}.`,
+          locale.list([locale.skip(2), locale.inChain(groupShort, 'last'), locale.chain(terms.chains)]), [skipOp(2), groupOp, chainOp(terms.chains)]),
+        step(`Join with a slip stitch to ${beginning}.`, join, JOIN_OPS),
+      ];
+    } else if (n === 1) {
+      // Petals are single puffs; every other first round works full groups into the ring.
+      const clusterSize = round.sides[1].clusters[0].stitches.length;
+      const petal = round.style === 'petal' ? " (This makes the first petal.)" : "";
+      steps = [
+        step(`${beginningInstruction(kind, clusterSize, names)} into the ring, then chain ${terms.chains}.${petal}`,
+          locale.list([locale.inRing(ops(beginningOps(kind, clusterSize))), locale.chain(terms.chains)]), [...beginningOps(kind, clusterSize), chainOp(terms.chains)]),
+        starred(`Work ${stitchCount(clusterSize, kind, names)} into the ring, chain ${terms.chains}.`,
+          locale.list([locale.inRing(locale.count(clusterSize, kind)), locale.chain(terms.chains)]),
+          [stitchOp(kind, clusterSize), chainOp(terms.chains)], sideCount - 1),
+        step(`Join with a slip stitch to ${beginning}.`, join, JOIN_OPS),
+      ];
+    } else if (round.type === 'transition') {
+      // Squaring round: every space of the circle gets a group, four of them become corners.
+      const squareTerms = { ...terms, space: "corner space" };
+      const sideKind = round.sides[0].clusters[1].stitches[0].kind;
+      label = locale.squaringRound;
+      entry = { space: prevTerms.space, sp: locale.chainSpace(prevTerms.chains), firstCorner: true };
+      steps = [
+        step(`Slip stitch across to the next ${prevTerms.space}. This space becomes the first corner.`, locale.firstCorner(locale.slipTo(locale.chainSpace(prevTerms.chains))), slipOps),
+        step(cornerInstruction(recipe, squareTerms, true, kind, names), locale.inSame(grouped(cornerOps(recipe, squareTerms, true, kind)), 'sp'), cornerOps(recipe, squareTerms, true, kind)),
+        step(sideInstruction(sideClusters, recipe, picot, "the space a quarter of the way around", undefined, undefined, names),
+          sideShort(locale, sideClusters, recipe, picot, sideKind, 'quarter', undefined, locale.chainSpace(prevTerms.chains)),
+          [...spaceOps(recipe, picot), stitchOp(sideKind, recipe.stitchesPerCluster)], sideClusters),
+        step(`${spaceInstruction(recipe, false)} ${cornerInstruction(recipe, { ...squareTerms, space: "space" }, false, kind, names)}`,
+          withSpace(locale.inNext(grouped(cornerOps(recipe, squareTerms, false, kind)), locale.space), false), [...spaceOps(recipe, false), ...cornerOps(recipe, squareTerms, false, kind)]),
+        repeatAround({ from: 3, to: 4, times: sideCount - 1, endWith: 3 }, "working the corners in the taller stitch so the circle squares off"),
+        step(`${spaceInstruction(recipe, false)} Join with a slip stitch to ${beginning}.`, withSpace(join, false), [...spaceOps(recipe, false), ...JOIN_OPS]),
+      ];
+    } else {
+      // Once the sides have spaces, every group (corners included) is preceded by one.
+      const spaced = round.sides.some(side => side.spaceChains.length > 0);
+      const before = spaced ? `${spaceInstruction(recipe, picot)} ` : "";
+      const beforeShort = (text: string) => spaced ? withSpace(text, picot) : text;
+      const beforeOps = spaced ? spaceOps(recipe, picot) : [];
+      const corner = step(before + cornerInstruction(recipe, terms, false, recipe.stitchKind, names),
+        beforeShort(locale.inNext(grouped(cornerOps(recipe, terms)), locale.chainSpace(terms.chains))), [...beforeOps, ...cornerOps(recipe, terms)]);
+      entry = { space: prevTerms.space === "corner space" ? `corner chain-${prevTerms.chains} space` : prevTerms.space, sp: locale.chainSpace(prevTerms.chains) };
+      steps = [
+        step(`Slip stitch across to the next ${entry.space}.`, locale.slipTo(entry.sp), slipOps),
+        step(cornerInstruction(recipe, terms, true, recipe.stitchKind, names), locale.inSame(grouped(cornerOps(recipe, terms, true)), 'sp'), cornerOps(recipe, terms, true)),
+      ];
+
+      if (sideClusters > 0) {
+        // Groups worked along a foundation chain leave plain gaps instead of chain spaces.
+        const betweenGroups = rounds[0].foundation && n === 2;
+        const space = betweenGroups ? "space between two groups" : undefined;
+        const [long, short] = rectangleSides(round);
+        const rectangle = isRectangle(round);
+        const increase = round.type === 'circle';
+        steps.push(
+          step(sideInstruction(sideClusters, recipe, picot, increase ? "the next increase" : "the next corner", rectangle ? rectangleSideCounts(long, short) : undefined, space, names),
+            sideShort(locale, sideClusters, recipe, picot, kind, increase ? 'increase' : 'corner', rectangle ? locale.rectangleCounts(long, short) : undefined, betweenGroups ? locale.betweenGroups : undefined),
+            [...spaceOps(recipe, picot), groupOp], sideClusters),
+          corner,
+          repeatAround({ from: 3, to: 4, times: sideCount - 1, endWith: 3 }),
+        );
+      } else {
+        // round 2 only has corners, no side spaces yet
+        steps.push(
+          corner,
+          repeatStep(`Repeat step 3 in each remaining ${terms.space}.`, { from: 3, to: 3, times: sideCount - 1 }),
+        );
+      }
+
+      steps.push(step(`${before}Join with a slip stitch to ${beginning}.`, beforeShort(join), [...beforeOps, ...JOIN_OPS]));
+    }
+
+    // A round in a new colour joins it where the round starts instead of slipping across to it;
+    // round 1 joins it in the ring or foundation chain before working into it.
+    const name = colorName(n);
+    if (name && colorIds[n] !== colorIds[n - 1]) {
+      if (entry) {
+        const joinNew = locale.joinColor(name, locale.any(entry.sp));
+        steps[0] = step(`Join ${name} with a slip stitch in any ${entry.space}.${entry.firstCorner ? " This space becomes the first corner." : ""}`,
+          entry.firstCorner ? locale.firstCorner(joinNew) : joinNew, JOIN_OPS);
+      } else {
+        steps.unshift(step(`Join ${name} with a slip stitch in the ${foundation ? "last foundation chain" : "ring"}.`,
+          locale.joinColor(name, foundation ? locale.lastFoundationChain : locale.ring), JOIN_OPS));
+      }
+    }
+    if (name && changesAfter(n)) steps.push(step(locale.sentence(locale.fastenOff(name)), locale.fastenOff(name), []));
+    if (n === rounds.length - 1) steps.push(step("Fasten off and weave in all the ends.", locale.fastenOff(), []));
+
+    return { number: n, label, color: colorIds[n], groupColors: groupColorIds[n], steps, summary: locale.summary(round, recipe), counts: roundCounts(round, recipe) };
+  });
+
+  return {
+    language: locale.language,
+    terminology: locale.terminology,
+    title: locale.motifTitle(motifTitleInfo(rounds)),
+    startsFrom: foundation ? 'foundation' : 'ring',
+    colors,
+    start,
+    rounds: patternRounds,
+    joining: buildJoining(rounds, recipe, joinOptions, locale),
+    border: buildBorder(rounds, borderOptions, locale, borderId),
+    stitchKinds: collectStitchKinds(rounds, borderId ? borderOptions.rounds : []),
+  };
+}
+
+// === Joining ===
+function buildJoining(rounds: Round[], recipe: ClusterRecipe, options: JoinOptions, locale: PatternLocale): PatternJoining | undefined {
+  const round = rounds[rounds.length - 1];
+  if (options.method === 'none' || !round || round.id === 0) return undefined;
+  if (options.method === 'join-as-you-go' && joinAsYouGoProblem(round)) return undefined;
+
+  const names = locale.names;
+  const { step, starred } = stepBuilder(locale);
+  const blanketOrder = options.blanket && options.blanket.rows * options.blanket.cols > 1
+    ? locale.blanketOrder(options.method, options.blanket.rows, options.blanket.cols)
+    : undefined;
+  const order = blanketOrder ? [step(locale.sentence(blanketOrder), blanketOrder, [])] : [];
+
+  if (options.method !== 'join-as-you-go') {
+    const method = options.method;
+    const [long, short] = [edgeStitches(round.sides[0]), edgeStitches(round.sides[1])];
+    const rectangle = isRectangle(round);
+    const edge = locale.edgeCount(long, rectangle ? short : undefined);
+    const edgeText = rectangle ? `${long} stitches along the long sides, ${short} along the short sides` : `${long} stitches per side`;
+    const [startText, acrossText, endText, across] = {
+      'whip-stitch': [
+        "Thread the yarn on a tapestry needle and pass it through both corner spaces.",
+        `Whip stitch through the back loops of each matching pair of stitches across to the next corner (${edgeText}).`,
+        "Pass the needle through both corner spaces.",
+        [],
+      ],
+      'slip-stitch-seam': [
+        "Join the yarn with a slip stitch through both corner spaces.",
+        `Slip stitch through the back loops of each matching pair of stitches across to the next corner (${edgeText}).`,
+        "Slip stitch through both corner spaces.",
+        [stitchOp('slst', 1)],
+      ],
+      'sc-seam': [
+        `Join the yarn with a slip stitch through both corner spaces, chain 1 and work 1 ${names.sc.abbr} in the same space.`,
+        `Work 1 ${names.sc.abbr} through both loops of each matching pair of stitches across to the next corner (${edgeText}).`,
+        `Work 1 ${names.sc.abbr} through both corner spaces.`,
+        [stitchOp('sc', 1)],
+      ],
+    }[method] as [string, string, string, StitchOp[]];
+    return {
+      method,
+      note: locale.joinNote(method),
+      steps: [
+        step("Hold two squares with their right sides together and their edges matched.", locale.seamHold, []),
+        step(startText, locale.seamStart(method), method === 'whip-stitch' ? [] : method === 'sc-seam' ? [...JOIN_OPS, chainOp(1), stitchOp('sc', 1)] : JOIN_OPS),
+        step(acrossText, locale.seamAcross(method, edge), across, rectangle ? 1 : long),
+        step(endText, locale.seamEnd(method), across),
+        step("Fasten off and weave in the ends.", locale.fastenOff(), []),
+        ...order,
+      ],
+    };
+  }
+
+  // The slip stitch into the finished square takes the place of the middle chain of each space,
+  // or goes between the two middle chains of an even number.
+  const n = round.id;
+  const kind = round.sides[1].clusters[0].stitches[0].kind;
+  const group = stitchCount(recipe.stitchesPerCluster, kind, names);
+  const groupShort = locale.count(recipe.stitchesPerCluster, kind);
+  const groupOp = stitchOp(kind, recipe.stitchesPerCluster);
+  const cornerChains = cornerTerms(round).chains;
+  const cornerSpace = locale.chainSpace(cornerChains);
+  const sideSpace = locale.chainSpace(recipe.sideChains);
+  const joinedSpace = (chains: number, space: string, sp: string, meet: boolean = false) => {
+    const half = Math.floor(chains / 2);
+    const around = (text: string) => half > 0 ? [locale.chain(half), text, locale.chain(half)] : [text];
+    const where = meet ? "into the corner where the finished squares are joined" : `into the matching ${space} of the finished square`;
+    return {
+      text: half > 0 ? `chain ${half}, slip stitch ${where}, chain ${half}` : `slip stitch ${where}`,
+      short: around(locale.slipNeighbour(sp, meet)),
+      ops: half > 0 ? [chainOp(half), stitchOp('slst', 1), chainOp(half)] : [stitchOp('slst', 1)],
+    };
+  };
+  const capital = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+  const cornerJoin = (meet: boolean) => {
+    const join = joinedSpace(cornerChains, "corner space", cornerSpace, meet);
+    return step(`${capital(join.text)}, then work ${group} into the same corner space of this square.`,
+      locale.list([...join.short, locale.inSame(groupShort, 'sp')]), [...join.ops, groupOp]);
+  };
+
+  const sides = joinedSides(round, options);
+  const steps: PatternStep[] = [
+    step(`Work round ${n} as written until you reach the second corner, then work ${group} into that corner space.`,
+      locale.list([locale.asWritten(n, 'to-corner'), locale.inNext(groupShort, cornerSpace)]), [groupOp]),
+    cornerJoin(false),
+  ];
+  sides.forEach((side, j) => {
+    const sideClusters = side.clusters.length - 2;
+    const join = joinedSpace(recipe.sideChains, `chain-${recipe.sideChains} space`, sideSpace);
+    if (sideClusters > 0) {
+      steps.push(starred(`${capital(join.text)}, then work ${group} into the next chain-${recipe.sideChains} space of this square.`,
+        locale.list([...join.short, locale.inNext(groupShort, sideSpace)]), [...join.ops, groupOp], sideClusters));
+    }
+    steps.push(step(`${capital(join.text)}, then work ${group} into the next corner space of this square.`,
+      locale.list([...join.short, locale.inNext(groupShort, cornerSpace)]), [...join.ops, groupOp]));
+    steps.push(cornerJoin(j < sides.length - 1));
+  });
+  steps.push(step(`Work the rest of round ${n} as written.`, locale.asWritten(n, 'rest'), []));
+
+  const sideJoins = sides.reduce((sum, side) => sum + side.clusters.length - 1, 0);
+  return {
+    method: options.method,
+    note: locale.joinNote(options.method),
+    steps: [...steps, ...order],
+    counts: locale.joinCounts(sides.length + 1, sideJoins),
+  };
+}
+
+function buildBorder(rounds: Round[], options: BorderOptions, locale: PatternLocale, colorId: string = "A"): PatternBorder | undefined {
+  const round = rounds[rounds.length - 1];
+  if (options.rounds.length === 0 || !round || round.id === 0 || borderProblem(round, options)) return undefined;
+
+  const english = locale.language === 'en';
+  const names = locale.names;
+  const sc = names.sc.abbr;
+  const { step, repeatStep, repeatAround } = stepBuilder(locale);
+  const ops = (list: StitchOp[]) => opsText(list, locale);
+  const grouped = (list: StitchOp[]) => list.length > 1 ? locale.group(ops(list)) : ops(list);
+  const stitches = (n: number) => n === 1 ? "stitch" : `${n} stitches`;
+
+  const start = borderStart(round, options);
+  const plan = planBorder(start.edges, start.intoSpace, options.rounds);
+  const color = locale.colorName(colorId);
+  const cornerChains = cornerTerms(round).chains;
+  // Squares start in any corner; rectangles and blankets in the top left one, so the sides come in order.
+  const uneven = start.edges.some(edge => edge !== start.edges[0]);
+  const sideCount = start.edges.length;
+
+  const along = (border: BorderRound, side: BorderSide): PatternStep | null => {
+    const sideOps = borderSideOps(border.style, side);
+    if (sideOps.length === 0) return null;
+    if (border.style === 'sc' || border.style === 'crab') {
+      const kind = border.style;
+      return step(`Work 1 ${names[kind].abbr} in each stitch across to the next corner (${stitchCount(side.edge, kind, names)}).`,
+        locale.eachAcross(kind, side.edge), sideOps);
+    }
+    const [bodyShort, bodyText] = border.style === 'picot'
+      ? [locale.list([locale.eachNext('sc', PICOT_EVERY), ops([stitchOp('picot', 1)])]),
+        `Work 1 ${sc} in each of the next ${PICOT_EVERY} stitches, then make a picot.`]
+      : [locale.list([locale.skipStitches(1), locale.inNext(locale.count(SHELL_SIZE, 'dc'), locale.stitch), locale.skipStitches(1), locale.eachNext('sc', 1)]),
+        `Skip 1 stitch, work ${stitchCount(SHELL_SIZE, 'dc', names)} in the next stitch, skip 1 stitch, then work 1 ${sc} in the next stitch.`];
+    const [repeatText, repeatShort] = starRepeat(bodyText, bodyShort, side.repeats, locale);
+    const short = [
+      ...(side.repeats > 0 ? [repeatShort] : []),
+      ...(side.rest > 0 ? [locale.eachNext('sc', side.rest)] : []),
+    ];
+    const text = [
+      ...(side.repeats > 0 ? [repeatText] : []),
+      ...(side.rest > 0 ? [`Work 1 ${sc} in ${side.rest === 1 ? "the last stitch" : `each of the last ${side.rest} stitches`} before the corner.`] : []),
+    ];
+    return step(text.join(" "), locale.list(short), sideOps);
+  };
+
+  const borderRounds = plan.map((border, i): PatternRound => {
+    const steps: PatternStep[] = [];
+    const [first, ...rest] = border.corner;
+    const firstKind = first.kind as StitchKind;
+    const beginning = [...beginningOps(firstKind, first.count), ...rest];
+    const place = border.intoSpace ? 'sp' : 'st';
+    // The first round goes into the corners of the motif; later ones into the middle of the corners below.
+    const [cornerPlace, cornerText] = !border.intoSpace
+      ? [locale.cornerStitch, "corner stitch"]
+      : i === 0 ? [locale.chainSpace(cornerChains), `corner chain-${cornerChains} space`] : [names.picot.abbr, "corner picot"];
+
+    if (i === 0) {
+      steps.push(step(`Join ${color} with a slip stitch in ${uneven ? "the top left" : "any"} ${cornerText}.`,
+        locale.joinColor(color, uneven ? locale.topLeft(cornerPlace) : locale.any(cornerPlace)), JOIN_OPS));
+    } else {
+      const flank = cornerFlank(plan[i - 1].corner);
+      if (flank > 0) steps.push(step(`Slip stitch in the next ${stitches(flank)} to the middle of the corner.`, locale.slipNext(flank), [stitchOp('slst', flank)]));
+    }
+    steps.push(step(`${beginningInstruction(firstKind, first.count, names)}${rest.length > 0 ? `, ${ops(rest)}` : ""} in the same ${border.intoSpace ? "space" : "stitch"}. (This makes the first corner.)`,
+      locale.inSame(grouped(beginning), place), beginning));
+
+    const corner = () => step(`Work ${grouped(border.corner)} in the next ${cornerText}. (This makes a corner.)`,
+      locale.inNext(grouped(border.corner), cornerPlace), border.corner);
+    if (!uneven) {
+      const side = along(border, border.sides[0]);
+      if (side) {
+        steps.push(side, corner());
+        const from = steps.length - 1;
+        steps.push(repeatAround({ from, to: from + 1, times: sideCount - 1, endWith: from }));
+      } else {
+        steps.push(corner());
+        steps.push(repeatStep(`Repeat step ${steps.length} in each remaining corner.`, { from: steps.length, to: steps.length, times: sideCount - 1 }));
+      }
+    } else {
+      border.sides.forEach((side, j) => {
+        const sideStep = along(border, side);
+        if (sideStep) steps.push(sideStep);
+        if (j < sideCount - 1) steps.push(corner());
+      });
+    }
+
+    const def = STITCH_DEFS[firstKind];
+    steps.push(def.chainCountsAsStitch
+      ? step(`Join with a slip stitch to the top of the beginning chain-${def.turningChains}.`, locale.joinTop(def.turningChains), JOIN_OPS)
+      : step(`Join with a slip stitch to the first ${names[firstKind].abbr}.`, locale.joinFirst(firstKind), JOIN_OPS));
+    if (i === plan.length - 1) steps.push(step("Fasten off and weave in all the ends.", locale.fastenOff(), []));
+
+    const totals = new Map<StitchKind, number>();
+    [...border.sides.flatMap(side => borderSideOps(border.style, side)), ...border.sides.flatMap(() => border.corner)].forEach(op => {
+      if (op.kind !== 'skip') totals.set(op.kind, (totals.get(op.kind) ?? 0) + op.count);
+    });
+    const [top, left] = border.sides.map(side => borderSideStitches(border.style, side));
+    return {
+      number: border.number,
+      color: i === 0 ? colorId : undefined,
+      steps,
+      summary: english ? `Between the corners: ${locale.sideCounts(top, uneven ? left : undefined)}.` : locale.sideCounts(top, uneven ? left : undefined),
+      counts: {
+        stitches: (Object.keys(STITCH_DEFS) as StitchKind[])
+          .filter(kind => kind !== 'picot' && totals.has(kind))
+          .map(kind => ({ kind, count: totals.get(kind)! })),
+        spaces: [],
+        picots: totals.get('picot') ?? 0,
+      },
+    };
+  });
+
+  return { blanket: !!options.blanket, note: locale.borderNote(!!options.blanket), rounds: borderRounds };
+}
+
+// === Main Pattern Generator ===
+const documentLocale = (pattern: PatternDocument) => patternLocale(pattern.language, pattern.terminology);
+
+// A step as written in the given style; the compact style writes whole rounds instead.
+export function stepText(step: PatternStep, style: InstructionStyle, locale: PatternLocale = patternLocale()): string {
+  return style === 'beginner' ? step.text : locale.sentence(step.short);
+}
+
+// The whole round on one line, with repeated steps folded into brackets.
+export function compactRound(round: PatternRound, locale: PatternLocale = patternLocale()): string {
+  const parts: string[] = [];
+  round.steps.forEach((step, i) => {
+    const group = round.steps.find(other => other.repeatSteps && i + 1 >= other.repeatSteps.from && i + 1 <= other.repeatSteps.to)?.repeatSteps;
+    if (group && i + 1 > group.from) return; // Already folded into the bracket
+    if (group) {
+      const inner = locale.list(round.steps.slice(group.from - 1, group.to).map(other => other.short));
+      parts.push(locale.bracketRepeat(inner, group.times));
+    } else if (step.repeatSteps) {
+      if (step.repeatSteps.endWith) parts.push(round.steps[step.repeatSteps.endWith - 1].short);
+    } else {
+      parts.push(step.short);
+    }
+  });
+  return `${locale.list(parts)}${locale.fullStop}`;
+}
+
+export function renderPatternText(pattern: PatternDocument, style: InstructionStyle = 'beginner'): string {
+  const locale = documentLocale(pattern);
+  const materials = pattern.colors.map(color => `- ${locale.materials(color, pattern.startsFrom)}`);
+  const instructions = [
+    pattern.title,
+    ...(materials.length > 0 ? [`${locale.materialsTitle}\n${materials.join("\n")}`] : []),
+    locale.start(stepText(pattern.start, style, locale)),
+  ];
+  const pushRound = (round: PatternRound, heading: string, compactHeading: string) => {
+    const groupColors = round.groupColors ? [locale.groupColors(round.groupColors)] : [];
+    if (style === 'compact') {
+      instructions.push([`${compactHeading} ${compactRound(round, locale)} ${locale.counts(round.counts)}`, ...groupColors].join("\n"));
+      return;
+    }
+    instructions.push(
+      `\n${heading}\n` +
+      groupColors.map(line => `${line}\n`).join("") +
+      round.steps.map((step, i) => `${i + 1}. ${stepText(step, style, locale)}\n`).join("") +
+      (style === 'beginner' ? `👉 ${round.summary} ` : "") + locale.counts(round.counts)
+    );
+  };
+  // A border around each square comes before the joining, one around the blanket after it.
+  const border = pattern.border;
+  const pushBorder = () => {
+    if (!border) return;
+    instructions.push(`\n${locale.borderTitle(border.blanket)}\n${border.note}`);
+    border.rounds.forEach(round => pushRound(round, locale.borderHeading(round.number), locale.borderCompactHeading(round.number)));
+  };
+  pattern.rounds.forEach(round => pushRound(round, locale.roundHeading(round.number, round.label), locale.compactHeading(round.number)));
+  if (!border?.blanket) pushBorder();
+  const joining = pattern.joining;
+  if (joining) {
+    const steps = style === 'compact'
+      ? `${locale.list(joining.steps.map(step => step.short))}${locale.fullStop}`
+      : joining.steps.map((step, i) => `${i + 1}. ${stepText(step, style, locale)}`).join("\n");
+    instructions.push(`\n${locale.joiningTitle(joining.method)}\n${joining.note}\n${steps}${joining.counts ? `\n${joining.counts}` : ""}`);
+  }
+  if (border?.blanket) pushBorder();
+  return instructions.join(style === 'compact' ? "\n" : "\n\n");
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import { type ClusterRecipe, type Round, type StitchKind, CLUSTER_STITCH_KINDS, DEFAULT_RECIPE, STITCH_DEFS } from "./model";
+import { ringChainCount } from "./geometry";
+import { type MotifOptions, DEFAULT_MOTIF, buildRounds, cornerStitchKind, planRounds, solidCornerSize } from "./rounds";
+import { collectStitchKinds } from "./pattern";
+
+const compile = (n: number, recipe: Partial<ClusterRecipe> = {}, picotEdge: boolean = false, motif: Partial<MotifOptions> = {}): Round[] =>
+  buildRounds(planRounds({ ...DEFAULT_MOTIF, ...motif }, n, 24, 24), { x: 0, y: 0 }, 24, 24, { ...DEFAULT_RECIPE, ...recipe }, picotEdge);
+
+const clusters = (round: Round) => round.sides.flatMap(side => side.clusters);
+const stitches = (round: Round) => clusters(round).flatMap(cluster => cluster.stitches);
+const groupsPerSide = (rounds: Round[]) => rounds.map(round => round.sides.map(side => side.clusters.length));
+
+// Every group is worked into a space or stitch the round below really has.
+function expectAnchored(rounds: Round[]) {
+  rounds.slice(1).forEach((round, i) => clusters(round).forEach(cluster => {
+    expect(cluster.anchorRef?.roundId).toBe(i);
+    const anchor = rounds[i].sides[cluster.anchorRef!.side].anchorsOnThisSide[cluster.anchorRef!.slotIndex];
+    expect(anchor?.type).toBe(cluster.anchorRef!.type);
+  }));
+}
+
+describe("buildRounds", () => {
+  it("adds a group to every side each round, worked into the spaces of the round below", () => {
+    const rounds = compile(4);
+    expect(groupsPerSide(rounds)).toEqual([0, 1, 2, 3, 4].map(n => [n, n, n, n]));
+    rounds.slice(1).forEach((round, i) => round.sides.forEach(side => side.clusters.forEach((cluster, j) => {
+      expect(cluster.anchorRef).toMatchObject({ roundId: i, side: side.side, slotIndex: j });
+      expect(rounds[i].sides[side.side].anchorsOnThisSide[j].type).toBe(cluster.anchorRef!.type);
+    })));
+  });
+
+  it("leaves a corner space at both ends of every side and a space between its groups", () => {
+    const [ring, ...rounds] = compile(3);
+    expect(ring.sides.flatMap(side => side.anchorsOnThisSide.map(anchor => anchor.type))).toEqual(Array(4).fill('center-ring'));
+    rounds.forEach((round, i) => round.sides.forEach(side => {
+      expect(side.anchorsOnThisSide.map(anchor => anchor.type)).toEqual(['corner', ...Array(i).fill('side-space'), 'corner']);
+      expect(side.spaceChains).toHaveLength(i);
+    }));
+  });
+
+  it.each(CLUSTER_STITCH_KINDS)("works every group in %s", kind => {
+    for (const cluster of clusters(compile(3, { stitchKind: kind })[3])) {
+      expect(cluster.stitches.map(stitch => stitch.kind)).toEqual([kind, kind, kind]);
+    }
+  });
+
+  it("works the groups, corners and side spaces of the recipe", () => {
+    const recipe = { stitchKind: "tr", stitchesPerCluster: 5, cornerChains: 3, sideChains: 2 } as const;
+    const round = compile(3, recipe)[3];
+    for (const cluster of clusters(round)) expect(cluster.stitches.map(stitch => stitch.kind)).toEqual(Array(5).fill("tr"));
+    round.sides.forEach(side => {
+      // The chains of each corner are split between the two sides that meet there.
+      expect(side.cornerChains).toHaveLength(3);
+      expect(side.spaceChains).toHaveLength(2 * 2);
+    });
+  });
+
+  it("makes single-stitch groups", () => {
+    for (const cluster of clusters(compile(2, { stitchKind: "sc", stitchesPerCluster: 1 })[2])) expect(cluster.stitches).toHaveLength(1);
+  });
+
+  it.each([3, 5, 6, 8])("works a motif with %i sides the same way", sideCount => {
+    const rounds = compile(3, {}, false, { sideCount });
+    expect(groupsPerSide(rounds)).toEqual([0, 1, 2, 3].map(n => Array(sideCount).fill(n)));
+    rounds.forEach(round => {
+      expect(round.geo.corners).toHaveLength(sideCount);
+      for (const corner of round.geo.corners) expect(Math.hypot(corner.x, corner.y)).toBeCloseTo(round.geo.r);
+    });
+    rounds[3].sides.forEach(side => side.clusters.forEach((cluster, j) => expect(cluster.anchorRef).toMatchObject({ roundId: 2, side: side.side, slotIndex: j })));
+  });
+
+  it("works a circle with a group more in every segment each round", () => {
+    const rounds = compile(4, {}, false, { motif: 'circle', circleSegments: 6 });
+    expect(rounds.map(round => round.type)).toEqual(['ring', 'circle', 'circle', 'circle', 'circle']);
+    expect(groupsPerSide(rounds)).toEqual([0, 1, 2, 3, 4].map(n => Array(6).fill(n)));
+    expectAnchored(rounds);
+  });
+
+  it("squares off a circle with taller stitches in the new corners", () => {
+    const rounds = compile(5, {}, false, { motif: 'circle-to-square', circleSegments: 8, circleRounds: 2 });
+    expect(rounds.map(round => round.type)).toEqual(['ring', 'circle', 'circle', 'transition', 'polygon', 'polygon']);
+    // One group in each of the 16 spaces of the circle, plus a group for each new corner
+    expect(groupsPerSide(rounds).slice(3)).toEqual([[5, 5, 5, 5], [6, 6, 6, 6], [7, 7, 7, 7]]);
+    rounds[3].sides.forEach(side => {
+      const kinds = side.clusters.map(cluster => cluster.stitches[0].kind);
+      expect(kinds).toEqual([cornerStitchKind("dc"), "dc", "dc", "dc", cornerStitchKind("dc")]);
+    });
+    expect(cornerStitchKind("dc")).toBe("tr");
+    expectAnchored(rounds);
+  });
+
+  it("works a solid granny into every stitch, increasing only at the corners", () => {
+    const rounds = compile(4, {}, false, { motif: 'solid-granny' });
+    expect(rounds.slice(1).map(round => round.style)).toEqual(['solid', 'solid', 'solid', 'solid']);
+    expect(rounds.map(round => stitches(round).length)).toEqual([0, 12, 28, 44, 60]);
+    expect(2 * 4 * solidCornerSize(DEFAULT_RECIPE)).toBe(16);
+    rounds.slice(2).forEach(round => round.sides.forEach(side => {
+      const [first, ...rest] = side.clusters;
+      const last = rest.pop()!;
+      expect([first, last].map(cluster => [cluster.anchorRef!.type, cluster.stitches.length])).toEqual([['corner', 2], ['corner', 2]]);
+      for (const cluster of rest) expect([cluster.anchorRef!.type, cluster.stitches.length]).toEqual(['stitch', 1]);
+    }));
+    expectAnchored(rounds);
+  });
+
+  it("works a sunburst center of stitches, puffs and groups before squaring off", () => {
+    const rounds = compile(5, {}, false, { motif: 'sunburst', circleSegments: 8 });
+    expect(rounds.map(round => [round.type, round.style])).toEqual([
+      ['ring', 'open'], ['circle', 'burst'], ['circle', 'puff'], ['circle', 'spaced'], ['transition', 'open'], ['polygon', 'open'],
+    ]);
+    expect(stitches(rounds[1]).map(stitch => stitch.kind)).toEqual(Array(16).fill("dc"));
+    expect(clusters(rounds[2]).map(cluster => [cluster.anchorRef!.type, cluster.stitches.map(stitch => stitch.kind)])).toEqual(Array(16).fill(['stitch-space', ['puff']]));
+    expect(clusters(rounds[3]).map(cluster => cluster.anchorRef!.type)).toEqual(Array(16).fill('side-space'));
+    expect(groupsPerSide(rounds).slice(4)).toEqual([[5, 5, 5, 5], [6, 6, 6, 6]]);
+    expectAnchored(rounds);
+  });
+
+  it.each([["dc", "puff"], ["popcorn", "popcorn"]] as const)("works a flower of %s groups with %s petals", (stitchKind, petal) => {
+    const rounds = compile(4, { stitchKind }, false, { motif: 'flower', circleSegments: 8 });
+    expect(rounds.map(round => [round.type, round.style])).toEqual([
+      ['ring', 'open'], ['circle', 'petal'], ['circle', 'spaced'], ['transition', 'open'], ['polygon', 'open'],
+    ]);
+    expect(clusters(rounds[1]).map(cluster => [cluster.anchorRef!.type, cluster.stitches.map(stitch => stitch.kind)])).toEqual(Array(8).fill(['center-ring', [petal]]));
+    expect(clusters(rounds[2]).map(cluster => [cluster.anchorRef!.type, cluster.stitches.length])).toEqual(Array(8).fill(['side-space', 3]));
+    expect(groupsPerSide(rounds).slice(3)).toEqual([[3, 3, 3, 3], [4, 4, 4, 4]]);
+    expectAnchored(rounds);
+  });
+
+  it("squares off a flower whose petals do not divide by four", () => {
+    const rounds = compile(4, {}, false, { motif: 'flower', circleSegments: 6 });
+    // 6 petal spaces and 4 corners, the extra groups on opposite sides
+    expect(groupsPerSide(rounds).slice(3)).toEqual([[3, 2, 3, 2], [4, 3, 4, 3]]);
+    expectAnchored(rounds);
+  });
+
+  it("starts from a ring of at least 4 chains, one per side beyond that", () => {
+    expect([3, 4, 6, 8].map(ringChainCount)).toEqual([4, 4, 6, 8]);
+  });
+
+  it("works a rectangle around both sides of a foundation chain", () => {
+    const [foundation, ...rounds] = compile(4, {}, false, { motif: 'rectangle', rectWidth: 7, rectHeight: 4 });
+    expect(foundation.type).toBe('foundation');
+    // 3 chains for each of the 2 middle groups and the end chain, plus the chain the last group is worked into
+    expect(foundation.foundation).toHaveLength(10);
+    expect(foundation.sides.map(side => side.anchorsOnThisSide.length)).toEqual([4, 1, 4, 1]);
+    expect(clusters(rounds[0]).every(cluster => cluster.anchorRef!.type === 'stitch')).toBe(true);
+    expect(rounds[0].sides.map(side => side.spaceChains.length)).toEqual([0, 0, 0, 0]);
+    expect(groupsPerSide(rounds)).toEqual([[4, 1, 4, 1], [5, 2, 5, 2], [6, 3, 6, 3], [7, 4, 7, 4]]);
+    expectAnchored([foundation, ...rounds]);
+  });
+
+  it("closes every round with a slip stitch", () => {
+    for (const round of compile(3).slice(1)) expect(round.join?.kind).toBe('slst');
+  });
+
+  it("works the spaces of the last round as picots for a picot edge", () => {
+    const rounds = compile(3, { stitchKind: "sc" }, true);
+    expect(rounds[2].sides.flatMap(side => side.spaceChains.map(stitch => stitch.kind))).toEqual(Array(4).fill('chain'));
+    expect(rounds[3].sides.flatMap(side => side.spaceChains.map(stitch => stitch.kind))).toEqual(Array(8).fill('picot'));
+  });
+});
+
+describe("collectStitchKinds", () => {
+  it("lists the stitches the rounds use, in the order of the stitch definitions", () => {
+    expect(collectStitchKinds(compile(3, { stitchKind: "sc" }, true))).toEqual(["chain", "slst", "sc", "picot"]);
+    expect(collectStitchKinds(compile(2, { stitchKind: "popcorn" }))).toEqual(["chain", "slst", "popcorn"]);
+  });
+});
+
+describe("STITCH_DEFS", () => {
+  it("lets the beginning chain of the taller stitches stand in for the first stitch", () => {
+    const counting = (Object.keys(STITCH_DEFS) as StitchKind[]).filter(kind => STITCH_DEFS[kind].chainCountsAsStitch);
+    expect(counting).toEqual(["hdc", "dc", "tr", "dtr"]);
+    expect(counting.map(kind => STITCH_DEFS[kind].turningChains)).toEqual([2, 3, 4, 5]);
+  });
+});
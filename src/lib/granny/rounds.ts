@@ -0,0 +1,474 @@
+import { type Vec2, type AnchorType, type RoundGeo, type StitchKind, type Cluster, type AnchorRef, type Stitch, type Anchor, type Side, type RoundType, type RoundStyle, type Round, type ClusterRecipe, DEFAULT_RECIPE } from "./model";
+import { vecLerp, vecAdd, vecDot, sideEndpoints, sideFrame, buildRoundGeo, apothemRatio, sideLengthRatio } from "./geometry";
+
+// ====== Round Plan ======
+// A motif is compiled from one spec per round, so different kinds of rounds can
+// follow each other, e.g. a circle that is squared off after a few rounds.
+export type MotifType = 'granny' | 'solid-granny' | 'rectangle' | 'circle' | 'circle-to-square' | 'sunburst' | 'flower';
+
+export interface MotifOptions {
+  motif: MotifType;
+  sideCount: number; // Corners of a granny polygon
+  circleSegments: number; // Increase points of each circle round
+  circleRounds: number; // Circle rounds worked before squaring off
+  rectWidth: number; // Groups along the long sides of a rectangle's last round
+  rectHeight: number; // Groups along the short sides, which is also the number of rounds
+}
+
+export const DEFAULT_MOTIF: MotifOptions = { motif: 'granny', sideCount: 4, circleSegments: 8, circleRounds: 2, rectWidth: 7, rectHeight: 4 };
+
+export const MOTIF_NAMES: Record<MotifType, string> = {
+  'granny': "Granny Polygon",
+  'solid-granny': "Solid Granny",
+  'rectangle': "Granny Rectangle",
+  'circle': "Granny Circle",
+  'circle-to-square': "Circle to Square",
+  'sunburst': "Sunburst Granny",
+  'flower': "Flower Granny",
+};
+
+// Polygon motifs take a shape; the others start as a circle with a number of increases.
+export const isPolygonMotif = (motif: MotifType) => motif === 'granny' || motif === 'solid-granny';
+
+// The sunburst center: stitches in the ring, puffs between them, then groups in the spaces.
+const SUNBURST_STYLES: RoundStyle[] = ['burst', 'puff', 'spaced'];
+// The flower center: a round of petals, then a group in each space between them.
+const FLOWER_STYLES: RoundStyle[] = ['petal', 'spaced'];
+
+// Circle rounds worked before squaring off, and the number of spaces the last of them leaves.
+function centerRounds(motif: MotifOptions): { styles: RoundStyle[]; spaces: number } {
+  switch (motif.motif) {
+    case 'sunburst':
+      return { styles: SUNBURST_STYLES, spaces: 2 * motif.circleSegments };
+    case 'flower':
+      return { styles: FLOWER_STYLES, spaces: motif.circleSegments };
+    default:
+      return { styles: Array(motif.circleRounds).fill('open'), spaces: motif.circleSegments * motif.circleRounds };
+  }
+}
+
+export interface RoundSpec {
+  type: RoundType;
+  style: RoundStyle;
+  sideCount: number; // Corners of a polygon round, increase points of a circle round
+  r: number; // Circumradius of the round
+  halfSize?: Vec2; // Half width and height of a rectangular round
+  chains?: number; // Length of a foundation chain
+}
+
+// Lays out the rounds of a motif and their radii. Radii grow by 2.5 stitch heights
+// per round, scaled so every shape keeps the square's side length.
+export function planRounds(motif: MotifOptions, nRounds: number, stitchWidth: number, stitchHeight: number): RoundSpec[] {
+  if (motif.motif === 'rectangle') return planRectangle(motif, stitchWidth, stitchHeight);
+  const step = 2.5 * stitchHeight;
+  const polygon = isPolygonMotif(motif.motif);
+  const firstSideCount = polygon ? motif.sideCount : motif.circleSegments;
+  const specs: RoundSpec[] = [{ type: 'ring', style: 'open', sideCount: firstSideCount, r: (stitchWidth / Math.sqrt(2)) * sideLengthRatio(firstSideCount) }];
+
+  const center = centerRounds(motif);
+  const circleRounds = center.styles.length;
+
+  for (let i = 1; i <= nRounds; i++) {
+    const prev = specs[i - 1];
+    if (polygon) {
+      const style = motif.motif === 'solid-granny' ? 'solid' : 'open';
+      specs.push({ type: 'polygon', style, sideCount: motif.sideCount, r: prev.r + step * sideLengthRatio(motif.sideCount) });
+    } else if (motif.motif === 'circle' || i <= circleRounds) {
+      const style = motif.motif === 'circle' ? 'open' : center.styles[i - 1];
+      specs.push({ type: 'circle', style, sideCount: motif.circleSegments, r: prev.r + step * sideLengthRatio(motif.circleSegments) });
+    } else if (i === circleRounds + 1) {
+      // The square has to clear the circle, and its sides hold one group per circle space.
+      const clustersPerSide = center.spaces / 4 + 1;
+      const squareR = stitchWidth / Math.sqrt(2) + clustersPerSide * step;
+      const clearanceR = (prev.r + step * apothemRatio(4)) / apothemRatio(4);
+      specs.push({ type: 'transition', style: 'open', sideCount: 4, r: Math.max(squareR, clearanceR) });
+    } else {
+      specs.push({ type: 'polygon', style: 'open', sideCount: 4, r: prev.r + step });
+    }
+  }
+  return specs;
+}
+
+// Rectangles start from a foundation chain with a group in every third chain. Each
+// round adds a group to every side, so the short sides of the last round hold as many
+// groups as there are rounds and the long sides keep their lead from the first round.
+function planRectangle(motif: MotifOptions, stitchWidth: number, stitchHeight: number): RoundSpec[] {
+  const pitch = (2.5 * stitchHeight) / Math.sqrt(2); // Half the distance between two groups
+  const rounds = Math.max(1, motif.rectHeight);
+  const middleGroups = Math.max(0, motif.rectWidth - rounds - 1); // Groups between the end chains in round 1
+  const halfWidthLead = (middleGroups + 1) * pitch;
+
+  const specs: RoundSpec[] = [{
+    type: 'foundation',
+    style: 'open',
+    sideCount: 4,
+    r: halfWidthLead,
+    halfSize: { x: halfWidthLead, y: 0 },
+    chains: 3 * (middleGroups + 1) + 1,
+  }];
+  for (let i = 1; i <= rounds; i++) {
+    const halfSize = { x: stitchWidth / 2 + i * pitch + halfWidthLead, y: stitchWidth / 2 + i * pitch };
+    specs.push({ type: 'polygon', style: 'open', sideCount: 4, r: Math.hypot(halfSize.x, halfSize.y), halfSize });
+  }
+  return specs;
+}
+
+// Corners of the squaring round are worked one stitch taller than the sides.
+const TALLER_STITCH: Partial<Record<StitchKind, StitchKind>> = { sc: 'hdc', hdc: 'dc', dc: 'tr', tr: 'dtr', dtr: 'dtr', puff: 'tr', popcorn: 'tr' };
+export const cornerStitchKind = (kind: StitchKind): StitchKind => TALLER_STITCH[kind] ?? kind;
+
+// ====== Core Compiler ======
+function compileRing(roundId: number, geo: RoundGeo): Round {
+    const sides: Side[] = geo.corners.map((_, side) => {
+      const [p0, p1] = sideEndpoints(geo.corners, side);
+      return {
+        side,
+        clusters: [],
+        cornerChains: [],
+        spaceChains: [],
+        anchorsOnThisSide: [{ pos: vecLerp(p0, p1, 0.5), type: 'center-ring' }],
+      };
+    });
+    return { id: roundId, type: 'ring', style: 'open', geo, sides };
+}
+
+// How one round is laid out along the sides of its polygon.
+interface SideLayout {
+    slotsPerSide: AnchorRef[][]; // The anchors of the previous round each cluster is worked into
+    clusterSize: (ref: AnchorRef) => number;
+    kindForCluster: (j: number, numClusters: number) => StitchKind;
+    cornerChains: number;
+    spaceChains: number; // Chains between neighbouring clusters, 0 when they sit side by side
+    picotSpaces: boolean;
+    nextAnchors: 'spaces' | 'stitches' | 'stitch-spaces'; // What the next round is worked into
+    spread: 'anchors' | 'even'; // Clusters follow their anchors outwards, or every stitch and chain gets an equal share of the side
+    cornerGaps: boolean; // No real corners: the space between two sides is the gap between their outer clusters
+}
+
+// The foundation chain of a rectangle. Its long sides offer every third chain to
+// the first round; the end chains are shared by the three sides that meet there.
+function compileFoundation(roundId: number, geo: RoundGeo, chainCount: number): Round {
+    const [left, right] = [geo.corners[0], geo.corners[1]];
+    const foundation: Stitch[] = Array.from({ length: chainCount }, (_, i) => ({
+        id: `r${roundId}-f${i}`,
+        kind: 'chain',
+        pos: vecLerp(left, right, i / (chainCount - 1)),
+    }));
+    const groupChains = foundation.filter((_, i) => i % 3 === 0).map((stitch): Anchor => ({ pos: stitch.pos, type: 'stitch' }));
+    const anchorsPerSide: Anchor[][] = [
+        groupChains,
+        [groupChains[groupChains.length - 1]],
+        [...groupChains].reverse(),
+        [groupChains[0]],
+    ];
+    const sides: Side[] = anchorsPerSide.map((anchorsOnThisSide, side) => ({
+        side,
+        clusters: [],
+        cornerChains: [],
+        spaceChains: [],
+        anchorsOnThisSide,
+    }));
+    return { id: roundId, type: 'foundation', style: 'open', geo, sides, foundation };
+}
+
+// Works one cluster into each of the given anchors of the previous round, laying
+// the clusters out along the sides of this round's polygon.
+function compileSides(prev: Round, roundId: number, geo: RoundGeo, stitchHeight: number, stitchWidth: number, layout: SideLayout): Side[] {
+    const { cornerChains: cornerChainCount, spaceChains: sideChains, picotSpaces, nextAnchors, spread, cornerGaps } = layout;
+
+    return layout.slotsPerSide.map((slots, sideIndex) => {
+        const [p0, p1] = sideEndpoints(geo.corners, sideIndex);
+        const { along, outward } = sideFrame(geo.corners, sideIndex);
+        const numClusters = slots.length;
+        const sizes = slots.map(layout.clusterSize);
+        const numStitches = sizes.reduce((sum, size) => sum + size, 0);
+        const gapUnits = nextAnchors !== 'spaces' ? 0 : picotSpaces ? 1 : sideChains; // Chains or picots between two clusters
+        const numStitchUnitsPerSide = spread === 'even'
+            ? numStitches + cornerChainCount + gapUnits * (numClusters - 1)
+            : roundId === 1 ? numStitches + 1 : numStitches + 2;
+        const clusters: Cluster[] = [];
+        const anchorsOnThisSide: Anchor[] = [];
+
+        // Each corner space is shared by two sides: the side owns the first half
+        // of the chains at its start and the second half at its end.
+        const startChainCount = Math.floor(cornerChainCount / 2);
+        const endChainCount = cornerChainCount - startChainCount;
+
+        let stitchIndex = 0;
+        slots.forEach((anchorRef, j) => {
+            const stitchKind = layout.kindForCluster(j, numClusters);
+            const clusterSize = sizes[j];
+            let individualStitches: Stitch[];
+            let centerPos: Vec2;
+
+            if (spread === 'even') {
+                individualStitches = Array.from({ length: clusterSize }, (_, k) => {
+                    const t = (startChainCount + stitchIndex + j * gapUnits + k + 0.5) / numStitchUnitsPerSide;
+                    return { id: `r${roundId}-s${sideIndex}-c${j}-${stitchKind}${k}`, kind: stitchKind, pos: vecLerp(p0, p1, t) };
+                });
+                centerPos = vecLerp(individualStitches[0].pos, individualStitches[clusterSize - 1].pos, 0.5);
+            } else {
+                const prevAnchorPos = prev.sides[anchorRef.side].anchorsOnThisSide[anchorRef.slotIndex].pos;
+                centerPos = vecAdd(prevAnchorPos, outward, stitchHeight);
+
+                // Snap the cluster onto the side line of this round.
+                centerPos = vecAdd(p0, along, vecDot({ x: centerPos.x - p0.x, y: centerPos.y - p0.y }, along));
+
+                const stitchOffset = stitchWidth * 0.8;
+                individualStitches = Array.from({ length: clusterSize }, (_, k) => {
+                    const offsetMultiplier = k - (clusterSize - 1) / 2;
+                    const pos = vecAdd(centerPos, along, offsetMultiplier * stitchOffset);
+                    return { id: `r${roundId}-s${sideIndex}-c${j}-${stitchKind}${k}`, kind: stitchKind, pos };
+                });
+            }
+            stitchIndex += clusterSize;
+
+            clusters.push({
+                id: `r${roundId}-s${sideIndex}-c${j}`,
+                side: sideIndex,
+                centerPos,
+                stitches: individualStitches,
+                anchorRef,
+            });
+        });
+
+        // Where the k-th chain from the corner goes, at the start or the end of the side.
+        // Sides without real corners are all alike, so the gaps to the neighbouring
+        // sides are found by carrying this side's outer stitches across its corners.
+        const firstStitch = clusters[0].stitches[0].pos;
+        const lastStitch = clusters[clusters.length - 1].stitches[clusters[clusters.length - 1].stitches.length - 1].pos;
+        const prevLastStitch = vecAdd(p0, along, -vecDot({ x: p1.x - lastStitch.x, y: p1.y - lastStitch.y }, along));
+        const nextFirstStitch = vecAdd(p1, along, vecDot({ x: firstStitch.x - p0.x, y: firstStitch.y - p0.y }, along));
+        const gapCorners = cornerGaps && spread === 'anchors';
+        const cornerChainPos = (k: number, atEnd: boolean): Vec2 => {
+            if (gapCorners) {
+                const u = ((atEnd ? endChainCount - 1 - k : endChainCount + k) + 1) / (cornerChainCount + 1);
+                return atEnd ? vecLerp(lastStitch, nextFirstStitch, u) : vecLerp(prevLastStitch, firstStitch, u);
+            }
+            const t = (k + 0.5) / numStitchUnitsPerSide;
+            return vecLerp(p0, p1, atEnd ? 1 - t : t);
+        };
+        const cornerChains: Stitch[] = [];
+        for (let k = 0; k < startChainCount; k++) {
+            cornerChains.push({ id: `r${roundId}-s${sideIndex}-corner1-ch${k}`, kind: 'chain', pos: cornerChainPos(k, false) });
+        }
+        for (let k = endChainCount - 1; k >= 0; k--) {
+            cornerChains.push({ id: `r${roundId}-s${sideIndex}-corner2-ch${k}`, kind: 'chain', pos: cornerChainPos(k, true) });
+        }
+
+        const cornerAtPoint = cornerChainCount === 0 || cornerGaps;
+        const startCornerPos = gapCorners ? vecLerp(prevLastStitch, firstStitch, 0.5) : cornerAtPoint ? p0 : cornerChainPos(0, false);
+        const endCornerPos = gapCorners ? vecLerp(lastStitch, nextFirstStitch, 0.5) : cornerAtPoint ? p1 : cornerChainPos(0, true);
+        const stitchEdgeType: AnchorType = nextAnchors === 'stitch-spaces' ? 'stitch-space' : cornerGaps ? 'side-space' : 'corner';
+        anchorsOnThisSide.push({ pos: startCornerPos, type: stitchEdgeType });
+
+        const spaceChains: Stitch[] = [];
+        if (nextAnchors === 'spaces') {
+            for (let j = 0; j < clusters.length - 1; j++) {
+                const midPoint = vecLerp(clusters[j].centerPos, clusters[j+1].centerPos, 0.5);
+                if (picotSpaces) {
+                    spaceChains.push({ id: `r${roundId}-s${sideIndex}-sp${j}-picot`, kind: 'picot', pos: midPoint });
+                } else {
+                    // Spread the chains across the gap between the two clusters.
+                    const gapStart = clusters[j].stitches[clusters[j].stitches.length - 1].pos;
+                    const gapEnd = clusters[j + 1].stitches[0].pos;
+                    for (let k = 0; k < sideChains; k++) {
+                        const pos = vecLerp(gapStart, gapEnd, (k + 1) / (sideChains + 1));
+                        spaceChains.push({ id: `r${roundId}-s${sideIndex}-sp${j}-ch${k}`, kind: 'chain', pos });
+                    }
+                }
+                anchorsOnThisSide.push({ pos: midPoint, type: 'side-space' });
+            }
+        } else {
+            // The next round is worked into the stitches themselves, or into the gaps between them.
+            const stitches = clusters.flatMap(cluster => cluster.stitches);
+            if (nextAnchors === 'stitches') {
+                stitches.forEach(stitch => anchorsOnThisSide.push({ pos: stitch.pos, type: 'stitch' }));
+            } else {
+                for (let k = 0; k < stitches.length - 1; k++) {
+                    anchorsOnThisSide.push({ pos: vecLerp(stitches[k].pos, stitches[k + 1].pos, 0.5), type: 'stitch-space' });
+                }
+            }
+        }
+        anchorsOnThisSide.push({ pos: endCornerPos, type: stitchEdgeType });
+
+        return { side: sideIndex, clusters, cornerChains, spaceChains, anchorsOnThisSide };
+    });
+}
+
+// Every anchor of the previous round on the same side, in order.
+function sameSideSlots(prev: Round): AnchorRef[][] {
+    return prev.sides.map(side => side.anchorsOnThisSide.map((anchor, slotIndex) => ({
+        roundId: prev.id,
+        side: side.side,
+        slotIndex,
+        type: anchor.type,
+    })));
+}
+
+// Every space of the previous round exactly once. A side's last anchor is the
+// same space as the next side's first one, so it is left to the next side.
+function eachSpaceSlots(prev: Round): AnchorRef[][] {
+    return sameSideSlots(prev).map(slots => slots.slice(0, -1));
+}
+
+// Maps the spaces of a circle round onto the four sides of a square. The four
+// spaces closest to the square's corner directions become the corners; every
+// space between them gets one group along the side.
+function squaringSlots(prev: Round): AnchorRef[][] {
+    const spaces = eachSpaceSlots(prev).flat();
+    const spaceCount = spaces.length;
+    const { center } = prev.geo;
+    const angleOf = (ref: AnchorRef) => {
+        const pos = prev.sides[ref.side].anchorsOnThisSide[ref.slotIndex].pos;
+        return Math.atan2(pos.y - center.y, pos.x - center.x);
+    };
+    const angularDistance = (a: number, b: number) => Math.abs(Math.atan2(Math.sin(a - b), Math.cos(a - b)));
+
+    const topLeft = -3 * Math.PI / 4;
+    let offset = 0;
+    spaces.forEach((ref, i) => {
+        if (angularDistance(angleOf(ref), topLeft) < angularDistance(angleOf(spaces[offset]), topLeft)) offset = i;
+    });
+
+    const cornerIndex = (q: number) => offset + Math.round((q * spaceCount) / 4);
+    return [0, 1, 2, 3].map(q => {
+        const slots: AnchorRef[] = [];
+        for (let i = cornerIndex(q); i <= cornerIndex(q + 1); i++) {
+            slots.push(spaces[i % spaceCount]);
+        }
+        return slots;
+    });
+}
+
+// Pulls every position of a round onto its circle, so the polygon the round
+// was laid out on becomes a ring with evenly spread increases.
+export function projectOntoCircle(round: Round) {
+    const { center, r } = round.geo;
+    const project = (p: Vec2): Vec2 => {
+        const dist = Math.hypot(p.x - center.x, p.y - center.y) || 1;
+        return { x: center.x + ((p.x - center.x) * r) / dist, y: center.y + ((p.y - center.y) * r) / dist };
+    };
+    round.sides.forEach(side => {
+        side.clusters.forEach(cluster => {
+            cluster.centerPos = project(cluster.centerPos);
+            cluster.stitches.forEach(stitch => { stitch.pos = project(stitch.pos); });
+        });
+        side.cornerChains.forEach(stitch => { stitch.pos = project(stitch.pos); });
+        side.spaceChains.forEach(stitch => { stitch.pos = project(stitch.pos); });
+        side.anchorsOnThisSide.forEach(anchor => { anchor.pos = project(anchor.pos); });
+    });
+}
+
+// Stitch kinds for the sunburst center: plain stitches around the ring, puffs between them.
+const basicStitchKind = (kind: StitchKind): StitchKind => (kind === 'puff' || kind === 'popcorn' ? 'dc' : kind);
+const puffStitchKind = (kind: StitchKind): StitchKind => (kind === 'puff' || kind === 'popcorn' ? kind : 'puff');
+
+// Solid corners hold one stitch less on each side of the corner chains than an open group.
+export const solidCornerSize = (recipe: ClusterRecipe) => Math.max(1, recipe.stitchesPerCluster - 1);
+
+function roundLayout(prev: Round, spec: RoundSpec, recipe: ClusterRecipe, picotSpaces: boolean): SideLayout {
+    const kind = recipe.stitchKind;
+    const layout: SideLayout = {
+        slotsPerSide: sameSideSlots(prev),
+        clusterSize: () => recipe.stitchesPerCluster,
+        kindForCluster: () => kind,
+        cornerChains: recipe.cornerChains,
+        spaceChains: recipe.sideChains,
+        picotSpaces,
+        nextAnchors: 'spaces',
+        spread: 'anchors',
+        cornerGaps: false,
+    };
+    // Circle increases use side-space chains so the round lies flat instead of forming corners.
+    if (spec.type === 'circle') {
+        layout.cornerChains = recipe.sideChains;
+    }
+    // Groups along a foundation chain are separated by skipped chains, not by new ones.
+    if (prev.type === 'foundation') {
+        layout.spaceChains = 0;
+        layout.picotSpaces = false;
+    }
+
+    switch (spec.style) {
+        case 'solid':
+            return {
+                ...layout,
+                clusterSize: ref => (ref.type === 'stitch' ? 1 : ref.type === 'corner' ? solidCornerSize(recipe) : recipe.stitchesPerCluster),
+                spaceChains: 0,
+                picotSpaces: false,
+                nextAnchors: 'stitches',
+                spread: 'even',
+            };
+        case 'burst':
+            return {
+                ...layout,
+                clusterSize: () => 2,
+                kindForCluster: () => basicStitchKind(kind),
+                cornerChains: 0,
+                spaceChains: 0,
+                picotSpaces: false,
+                nextAnchors: 'stitch-spaces',
+                spread: 'even',
+            };
+        case 'petal':
+            return {
+                ...layout,
+                clusterSize: () => 1,
+                kindForCluster: () => puffStitchKind(kind),
+                cornerChains: recipe.cornerChains,
+                cornerGaps: true,
+            };
+        case 'puff':
+            return { ...layout, slotsPerSide: eachSpaceSlots(prev), clusterSize: () => 1, kindForCluster: () => puffStitchKind(kind), cornerGaps: true };
+        case 'spaced':
+            return { ...layout, slotsPerSide: eachSpaceSlots(prev), cornerGaps: true };
+    }
+
+    if (spec.type === 'transition') {
+        return {
+            ...layout,
+            slotsPerSide: squaringSlots(prev),
+            kindForCluster: (j, numClusters) => (j === 0 || j === numClusters - 1 ? cornerStitchKind(kind) : kind),
+        };
+    }
+    return layout;
+}
+
+function compileRound(prev: Round | null, roundId: number, spec: RoundSpec, center: Vec2, stitchHeight: number, stitchWidth: number, recipe: ClusterRecipe, picotSpaces: boolean): Round {
+    const geo = buildRoundGeo(roundId, center, spec);
+
+    if (spec.type === 'foundation') {
+        return compileFoundation(roundId, geo, spec.chains ?? 4);
+    }
+    if (spec.type === 'ring' || !prev) {
+        return compileRing(roundId, geo);
+    }
+
+    const layout = roundLayout(prev, spec, recipe, picotSpaces);
+    const sides = compileSides(prev, roundId, geo, stitchHeight, stitchWidth, layout);
+    const round: Round = { id: roundId, type: spec.type, style: spec.style, geo, sides };
+    if (spec.type === 'circle') {
+        projectOntoCircle(round);
+    }
+
+    // The round starts on the second side and is closed with a slip stitch
+    // into the top of the beginning chain.
+    const firstStitch = sides[1].clusters[0].stitches[0];
+    round.join = { id: `r${roundId}-join`, kind: 'slst', pos: { ...firstStitch.pos } };
+    return round;
+}
+
+
+// Builds all rounds from their specs. With `picotEdge` the side spaces
+// of the outermost round are worked as picots instead of plain chains.
+export function buildRounds(specs: RoundSpec[], center: Vec2, stitchHeight: number, stitchWidth: number, recipe: ClusterRecipe = DEFAULT_RECIPE, picotEdge: boolean = false): Round[] {
+  const rounds: Round[] = [];
+  for (let i = 0; i < specs.length; i++) {
+    const prevRound = i === 0 ? null : rounds[i - 1];
+    const isLastRound = i === specs.length - 1;
+    const round = compileRound(prevRound, i, specs[i], center, stitchHeight, stitchWidth, recipe, picotEdge && isLastRound);
+    rounds.push(round);
+  }
+  return rounds;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MOTIF } from "./rounds";
+import { type Gauge, DEFAULT_GAUGE, gaugeScale, roundsForSize } from "./size";
+
+const swatch: Gauge = { ...DEFAULT_GAUGE, mode: 'swatch', swatchRounds: 4, swatchSizeCm: 11 };
+const scale = (gauge: Gauge, kind: 'dc' | 'tr' = 'dc') => gaugeScale(gauge, DEFAULT_MOTIF, kind, 24, 24);
+
+describe("gaugeScale", () => {
+  it("scales a swatch to the motif with the same number of rounds", () => {
+    const cmPerUnit = scale(swatch);
+    expect(roundsForSize(10.9, cmPerUnit, DEFAULT_MOTIF, 24, 24)).toBe(4);
+    expect(roundsForSize(11.1, cmPerUnit, DEFAULT_MOTIF, 24, 24)).toBe(5);
+  });
+
+  it("grows with the stitch height", () => {
+    const stitch: Gauge = { ...DEFAULT_GAUGE, mode: 'stitch', stitchHeightCm: 1.5 };
+    expect(scale({ ...stitch, stitchHeightCm: 3 })).toBeCloseTo(2 * scale(stitch));
+  });
+
+  it("grows with the hook size and the height of the stitch", () => {
+    const yarn: Gauge = { ...DEFAULT_GAUGE, mode: 'yarn', yarnWeight: 'worsted', hookMm: 5 };
+    expect(scale({ ...yarn, hookMm: 10 })).toBeCloseTo(2 * scale(yarn));
+    expect(scale(yarn, 'tr')).toBeCloseTo(1.35 * scale(yarn));
+  });
+});
+
+describe("roundsForSize", () => {
+  it("works fewer rounds for the same size in a thicker yarn", () => {
+    const fine = scale({ ...DEFAULT_GAUGE, yarnWeight: 'sport', hookMm: 3.75 });
+    const bulky = scale({ ...DEFAULT_GAUGE, yarnWeight: 'bulky', hookMm: 8 });
+    expect(roundsForSize(30, bulky, DEFAULT_MOTIF, 24, 24)!).toBeLessThan(roundsForSize(30, fine, DEFAULT_MOTIF, 24, 24)!);
+  });
+
+  it("gives up on a size it cannot reach", () => {
+    expect(roundsForSize(1000, scale(swatch), DEFAULT_MOTIF, 24, 24, 10)).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import type { Vec2, StitchKind } from "./model";
+import { roundCorners, apothemRatio, boundsOf } from "./geometry";
+import { type MotifOptions, type RoundSpec, planRounds } from "./rounds";
+
+// ====== Finished Size ======
+// The chart is drawn in pixels; a gauge says how big those rounds come out in real yarn.
+export type YarnWeight = 'lace' | 'fingering' | 'sport' | 'dk' | 'worsted' | 'bulky' | 'super-bulky';
+
+// Standard yarn weights with their usual hook and the height of one double crochet worked with it.
+export const YARN_WEIGHTS: Record<YarnWeight, { name: string; hookMm: number; dcHeightCm: number }> = {
+  'lace':        { name: "Lace (0)",        hookMm: 2.25, dcHeightCm: 0.8 },
+  'fingering':   { name: "Fingering (1)",   hookMm: 2.75, dcHeightCm: 0.9 },
+  'sport':       { name: "Sport (2)",       hookMm: 3.5,  dcHeightCm: 1.1 },
+  'dk':          { name: "DK (3)",          hookMm: 4,    dcHeightCm: 1.3 },
+  'worsted':     { name: "Worsted (4)",     hookMm: 5,    dcHeightCm: 1.5 },
+  'bulky':       { name: "Bulky (5)",       hookMm: 6.5,  dcHeightCm: 2 },
+  'super-bulky': { name: "Super Bulky (6)", hookMm: 9,    dcHeightCm: 2.8 },
+};
+
+// Height of each stitch compared to a double crochet.
+const STITCH_HEIGHT_RATIO: Partial<Record<StitchKind, number>> = { sc: 0.45, hdc: 0.7, dc: 1, tr: 1.35, dtr: 1.7, puff: 0.8, popcorn: 1, crab: 0.45 };
+
+export type GaugeMode = 'swatch' | 'stitch' | 'yarn';
+
+export interface Gauge {
+  mode: GaugeMode;
+  swatchRounds: number; // 'swatch': the motif measures swatchSizeCm across after this many rounds
+  swatchSizeCm: number;
+  stitchHeightCm: number; // 'stitch': height of one cluster stitch
+  yarnWeight: YarnWeight; // 'yarn': typical stitch height for the yarn, scaled by the hook
+  hookMm: number;
+}
+
+export const DEFAULT_GAUGE: Gauge = { mode: 'yarn', swatchRounds: 4, swatchSizeCm: 11, stitchHeightCm: 1.5, yarnWeight: 'worsted', hookMm: 5 };
+
+// Width and height of a planned round in chart units.
+export function specSize(spec: RoundSpec): Vec2 {
+  if (spec.type === 'circle') return { x: 2 * spec.r, y: 2 * spec.r };
+  const { min, max } = boundsOf(roundCorners({ x: 0, y: 0 }, spec));
+  return { x: max.x - min.x, y: max.y - min.y };
+}
+
+// The same motif with `n` rounds. Rectangles keep the lead of their long sides.
+function motifRounds(motif: MotifOptions, n: number, stitchWidth: number, stitchHeight: number): RoundSpec[] {
+  if (motif.motif !== 'rectangle') return planRounds(motif, n, stitchWidth, stitchHeight);
+  return planRounds({ ...motif, rectHeight: n, rectWidth: Math.max(motif.rectWidth, motif.rectHeight + 1) - motif.rectHeight + n }, n, stitchWidth, stitchHeight);
+}
+
+// Centimetres per chart unit. Each round is taken to add one stitch height to every side of a
+// square, which the chart draws as 2.5 stitch heights of circumradius.
+export function gaugeScale(gauge: Gauge, motif: MotifOptions, kind: StitchKind, stitchWidth: number, stitchHeight: number): number {
+  const roundStep = 2.5 * stitchHeight * apothemRatio(4);
+  if (gauge.mode === 'swatch') {
+    const specs = motifRounds(motif, Math.max(1, gauge.swatchRounds), stitchWidth, stitchHeight);
+    const size = specSize(specs[specs.length - 1]);
+    return gauge.swatchSizeCm / Math.max(size.x, size.y);
+  }
+  if (gauge.mode === 'stitch') return gauge.stitchHeightCm / roundStep;
+  const weight = YARN_WEIGHTS[gauge.yarnWeight];
+  const height = weight.dcHeightCm * (gauge.hookMm / weight.hookMm) * (STITCH_HEIGHT_RATIO[kind] ?? 1);
+  return height / roundStep;
+}
+
+// Rounds needed before the motif measures at least `targetCm` across, or null if it takes more than `maxRounds`.
+export function roundsForSize(targetCm: number, cmPerUnit: number, motif: MotifOptions, stitchWidth: number, stitchHeight: number, maxRounds: number = 60): number | null {
+  for (let n = 1; n <= maxRounds; n++) {
+    const specs = motifRounds(motif, n, stitchWidth, stitchHeight);
+    const size = specSize(specs[specs.length - 1]);
+    if (Math.max(size.x, size.y) * cmPerUnit >= targetCm) return n;
+  }
+  return null;
+}
+
+// e.g. "10.5 × 10.5 cm (4.1 × 4.1 in)"
+export function formatSize(size: Vec2, cmPerUnit: number): string {
+  const [w, h] = [size.x * cmPerUnit, size.y * cmPerUnit];
+  return `${w.toFixed(1)} × ${h.toFixed(1)} cm (${(w / 2.54).toFixed(1)} × ${(h / 2.54).toFixed(1)} in)`;
+}
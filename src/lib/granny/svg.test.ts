@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { type Round, DEFAULT_RECIPE } from "./model";
+import { type MotifType, DEFAULT_MOTIF, MOTIF_NAMES, buildRounds, planRounds } from "./rounds";
+import { borderStart, chartBorder, planBorder } from "./border";
+import { collectStitchKinds } from "./pattern";
+import { type ChartDrawing, type PatternView, chartHeight } from "./chart";
+import { chartSvg } from "./svg";
+
+const chart = (motif: MotifType, view: PatternView = 'chart'): ChartDrawing => {
+  const rounds = buildRounds(planRounds({ ...DEFAULT_MOTIF, motif }, 4, 24, 24), { x: 0, y: 0 }, 24, 24, DEFAULT_RECIPE, false);
+  const outer = rounds[rounds.length - 1];
+  const start = borderStart(outer, { rounds: ['sc', 'picot'] });
+  return {
+    width: 400, height: 400, rounds, stitchHeight: 24, stitchWidth: 24, showStitches: true, view, scale: 0.8,
+    colors: ["#8b0000", "#ff6b35", "#f7931e", "#ffdc00", "#fff8dc"], clusterColors: { [outer.sides[0].clusters[0].id]: "#003366" },
+    joinPoints: [outer.sides[0].clusters[0].centerPos],
+    border: outer.type === 'polygon' ? chartBorder(outer, planBorder(start.edges, start.intoSpace, ['sc', 'picot']), 24, 24) : [],
+    borderColor: "#4a148c",
+    overlays: { legend: true, roundNumbers: true, direction: true, joins: true },
+    legend: collectStitchKinds(rounds, ['sc', 'picot']).map(kind => ({ kind, label: kind, name: `${kind} stitch` })),
+  };
+};
+
+// Every tag closed in order, attributes quoted and text free of markup; returns what is wrong.
+function xmlProblems(svg: string): string[] {
+  const problems: string[] = [];
+  const body = svg.replace(/^<\?xml [^>]*\?>\s*/, "");
+  const open: string[] = [];
+  let last = 0;
+  for (const match of body.matchAll(/<(\/?)([\w:-]+)((?:\s+[\w:-]+="[^"<]*")*)\s*(\/?)>/g)) {
+    const text = body.slice(last, match.index);
+    if (/[<>]|&(?!(amp|lt|gt|quot);)/.test(text)) problems.push(`stray markup in "${text}"`);
+    last = match.index + match[0].length;
+    const [, closing, name, , selfClosing] = match;
+    if (closing) {
+      if (open.pop() !== name) problems.push(`</${name}> closes nothing`);
+    } else if (!selfClosing) {
+      if (open.length === 0 && name !== 'svg') problems.push(`<${name}> outside the <svg>`);
+      open.push(name);
+    }
+  }
+  if (body.slice(last).trim()) problems.push("text after the root element");
+  if (open.length > 0) problems.push(`unclosed ${open.join(", ")}`);
+  return problems;
+}
+
+const ids = (svg: string) => [...svg.matchAll(/ id="([^"]+)"/g)].map(match => match[1]);
+
+describe("chartSvg", () => {
+  it.each(Object.keys(MOTIF_NAMES) as MotifType[])("writes a well-formed document for a %s", motif => {
+    for (const view of ['chart', 'stitch'] as const) {
+      const svg = chartSvg(chart(motif, view));
+      expect(svg.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<svg ')).toBe(true);
+      expect(xmlProblems(svg)).toEqual([]);
+      expect(svg).not.toMatch(/NaN|undefined|Infinity/);
+    }
+  });
+
+  it("gives every element a unique id", () => {
+    const svg = chartSvg(chart('granny'));
+    expect(ids(svg).length).toBeGreaterThan(100);
+    expect(new Set(ids(svg)).size).toBe(ids(svg).length);
+  });
+
+  it("groups every stitch under its own id", () => {
+    const drawing = chart('granny');
+    const svg = chartSvg(drawing);
+    const stitches = (round: Round) => round.sides.flatMap(side => side.clusters.flatMap(cluster => cluster.stitches));
+    for (const stitch of drawing.rounds.slice(1).flatMap(stitches)) expect(ids(svg)).toContain(stitch.id);
+  });
+
+  it("makes room for the legend", () => {
+    const drawing = chart('granny');
+    const height = chartHeight(drawing);
+    expect(height).toBeGreaterThan(drawing.height);
+    expect(chartSvg(drawing)).toContain(`width="400" height="${height}" viewBox="0 0 400 ${height}"`);
+    expect(chartSvg({ ...drawing, overlays: undefined })).toContain(`height="400"`);
+  });
+
+  it("escapes text", () => {
+    const svg = chartSvg({ ...chart('granny'), legend: [{ kind: 'puff', label: "puff", name: `Puff & "popcorn" <bobble>` }] });
+    expect(svg).toContain("Puff &amp; &quot;popcorn&quot; &lt;bobble&gt;");
+    expect(xmlProblems(svg)).toEqual([]);
+  });
+});
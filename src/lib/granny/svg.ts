@@ -0,0 +1,146 @@
+import type { Vec2 } from "./model";
+import { type ChartContext, type SvgChart, type ChartDrawing, chartHeight, drawChart } from "./chart";
+
+// ====== SVG Export ======
+// A 2D affine transform [a, b, c, d, e, f], as in `setTransform`.
+type Matrix = [number, number, number, number, number, number];
+
+const multiply = ([a, b, c, d, e, f]: Matrix, [a2, b2, c2, d2, e2, f2]: Matrix): Matrix =>
+  [a * a2 + c * b2, b * a2 + d * b2, a * c2 + c * d2, b * c2 + d * d2, a * e2 + c * f2 + e, b * e2 + d * f2 + f];
+
+const applyMatrix = ([a, b, c, d, e, f]: Matrix, x: number, y: number): Vec2 => ({ x: a * x + c * y + e, y: b * x + d * y + f });
+
+const svgNumber = (n: number) => String(Math.round(n * 100) / 100);
+const escapeXml = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const SVG_ANCHOR: Record<CanvasTextAlign, string> = { start: 'start', left: 'start', center: 'middle', end: 'end', right: 'end' };
+const SVG_BASELINE: Record<CanvasTextBaseline, string> = {
+  alphabetic: 'alphabetic', top: 'hanging', hanging: 'hanging', middle: 'central', ideographic: 'ideographic', bottom: 'text-after-edge',
+};
+
+// Records the drawing as an SVG document `width` × `height` pixels. The chart only scales uniformly,
+// so arcs and ellipses stay arcs and ellipses after the transform.
+function svgChartContext(width: number, height: number): SvgChart {
+  let matrix: Matrix = [1, 0, 0, 1, 0, 0];
+  let lineDash: number[] = [];
+  let path: string[] = [];
+  let current: Vec2 | null = null;
+  const states: { matrix: Matrix; lineDash: number[]; styles: Pick<ChartContext, 'strokeStyle' | 'fillStyle' | 'lineWidth' | 'globalAlpha' | 'font' | 'textAlign' | 'textBaseline'> }[] = [];
+  const body: string[] = [];
+  const ids = new Set<string>();
+  const scaleOf = () => Math.hypot(matrix[0], matrix[1]);
+
+  const pathTo = (command: string, ...points: Vec2[]) => {
+    path.push(`${command}${points.map(p => `${svgNumber(p.x)} ${svgNumber(p.y)}`).join(" ")}`);
+    if (points.length > 0) current = points[points.length - 1];
+  };
+  const paint = (attributes: string) => {
+    if (path.length === 0) return;
+    const opacity = context.globalAlpha < 1 ? ` opacity="${svgNumber(context.globalAlpha)}"` : "";
+    body.push(`<path d="${path.join(" ")}" ${attributes}${opacity}/>`);
+  };
+  const strokeAttributes = () => {
+    const dash = lineDash.length > 0 ? ` stroke-dasharray="${lineDash.map(n => svgNumber(n * scaleOf())).join(" ")}"` : "";
+    return `fill="none" stroke="${escapeXml(String(context.strokeStyle))}" stroke-width="${svgNumber(context.lineWidth * scaleOf())}"${dash}`;
+  };
+  const rectPath = (x: number, y: number, w: number, h: number) => {
+    const saved = path;
+    path = [];
+    pathTo("M", applyMatrix(matrix, x, y));
+    pathTo("L", applyMatrix(matrix, x + w, y), applyMatrix(matrix, x + w, y + h), applyMatrix(matrix, x, y + h));
+    path.push("Z");
+    return () => { path = saved; };
+  };
+
+  const context: SvgChart = {
+    strokeStyle: '#000000',
+    fillStyle: '#000000',
+    lineWidth: 1,
+    globalAlpha: 1,
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    save() {
+      const { strokeStyle, fillStyle, lineWidth, globalAlpha, font, textAlign, textBaseline } = context;
+      states.push({ matrix, lineDash, styles: { strokeStyle, fillStyle, lineWidth, globalAlpha, font, textAlign, textBaseline } });
+    },
+    restore() {
+      const state = states.pop();
+      if (!state) return;
+      ({ matrix, lineDash } = state);
+      Object.assign(context, state.styles);
+    },
+    translate(x, y) { matrix = multiply(matrix, [1, 0, 0, 1, x, y]); },
+    rotate(angle) { matrix = multiply(matrix, [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0]); },
+    scale(x, y) { matrix = multiply(matrix, [x, 0, 0, y, 0, 0]); },
+    beginPath() { path = []; current = null; },
+    closePath() { path.push("Z"); },
+    moveTo(x, y) { pathTo("M", applyMatrix(matrix, x, y)); },
+    lineTo(x, y) { pathTo(current ? "L" : "M", applyMatrix(matrix, x, y)); },
+    quadraticCurveTo(cpx, cpy, x, y) { pathTo("Q", applyMatrix(matrix, cpx, cpy), applyMatrix(matrix, x, y)); },
+    arc(x, y, radius, startAngle, endAngle, counterclockwise = false) {
+      context.ellipse(x, y, radius, radius, 0, startAngle, endAngle, counterclockwise);
+    },
+    ellipse(x, y, radiusX, radiusY, rotation, startAngle, endAngle, counterclockwise = false) {
+      const turn = rotation + Math.atan2(matrix[1], matrix[0]);
+      const [rx, ry] = [radiusX * scaleOf(), radiusY * scaleOf()];
+      const center = applyMatrix(matrix, x, y);
+      const at = (t: number): Vec2 => ({
+        x: center.x + rx * Math.cos(t) * Math.cos(turn) - ry * Math.sin(t) * Math.sin(turn),
+        y: center.y + rx * Math.cos(t) * Math.sin(turn) + ry * Math.sin(t) * Math.cos(turn),
+      });
+      const sweep = counterclockwise ? startAngle - endAngle : endAngle - startAngle;
+      const arcTo = (large: boolean) =>
+        `A${svgNumber(rx)} ${svgNumber(ry)} ${svgNumber(turn * 180 / Math.PI)} ${large ? 1 : 0} ${counterclockwise ? 0 : 1} `;
+      pathTo(current ? "L" : "M", at(startAngle));
+      if (sweep >= 2 * Math.PI - 1e-9) {
+        // A whole ellipse is two half arcs: one arc cannot end where it starts.
+        const half = startAngle + (counterclockwise ? -Math.PI : Math.PI);
+        pathTo(arcTo(false), at(half));
+        pathTo(arcTo(false), at(startAngle));
+      } else {
+        pathTo(arcTo(((sweep % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI) > Math.PI), at(endAngle));
+      }
+    },
+    stroke() { paint(strokeAttributes()); },
+    fill() { paint(`fill="${escapeXml(String(context.fillStyle))}"`); },
+    fillRect(x, y, w, h) {
+      const restorePath = rectPath(x, y, w, h);
+      paint(`fill="${escapeXml(String(context.fillStyle))}"`);
+      restorePath();
+    },
+    strokeRect(x, y, w, h) {
+      const restorePath = rectPath(x, y, w, h);
+      paint(strokeAttributes());
+      restorePath();
+    },
+    fillText(text, x, y) {
+      const [a, b, c, d, e, f] = matrix.map(svgNumber);
+      const opacity = context.globalAlpha < 1 ? ` opacity="${svgNumber(context.globalAlpha)}"` : "";
+      body.push(`<text x="${svgNumber(x)}" y="${svgNumber(y)}" transform="matrix(${a} ${b} ${c} ${d} ${e} ${f})" fill="${escapeXml(String(context.fillStyle))}" style="font: ${escapeXml(context.font)}" text-anchor="${SVG_ANCHOR[context.textAlign]}" dominant-baseline="${SVG_BASELINE[context.textBaseline]}"${opacity}>${escapeXml(text)}</text>`);
+    },
+    setLineDash(segments) { lineDash = [...segments]; },
+    // Ids stay unique: a stitch drawn twice, as its post and its top loop, numbers the second.
+    openGroup(id, layer) {
+      let unique = id;
+      for (let n = 2; ids.has(unique); n++) unique = `${id}-${n}`;
+      ids.add(unique);
+      body.push(`<g id="${escapeXml(unique)}"${layer ? ` inkscape:groupmode="layer" inkscape:label="${escapeXml(layer)}"` : ""}>`);
+    },
+    closeGroup() { body.push("</g>"); },
+    toSvg: () => [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${svgNumber(width)}" height="${svgNumber(height)}" viewBox="0 0 ${svgNumber(width)} ${svgNumber(height)}">`,
+      ...body,
+      "</svg>",
+    ].join("\n"),
+  };
+  return context;
+}
+
+// The chart as an SVG document, drawn by `drawChart` into a recording context.
+export function chartSvg(chart: ChartDrawing): string {
+  const svg = svgChartContext(chart.width, chartHeight(chart));
+  drawChart(svg, chart);
+  return svg.toSvg();
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { type ClusterRecipe, type Round, DEFAULT_RECIPE } from "./model";
+import { type MotifType, DEFAULT_MOTIF, MOTIF_NAMES, buildRounds, planRounds } from "./rounds";
+import { validateRounds } from "./validation";
+
+const compile = (motif: MotifType = 'granny', n: number = 4, recipe: ClusterRecipe = DEFAULT_RECIPE): Round[] =>
+  buildRounds(planRounds({ ...DEFAULT_MOTIF, motif }, n, 24, 24), { x: 0, y: 0 }, 24, 24, recipe);
+
+const codes = (rounds: Round[], recipe: ClusterRecipe = DEFAULT_RECIPE) => validateRounds(rounds, recipe).map(issue => issue.code);
+
+describe("validateRounds", () => {
+  it.each(Object.keys(MOTIF_NAMES) as MotifType[])("finds no errors in a %s", motif => {
+    const rounds = compile(motif, 5);
+    expect(validateRounds(rounds, DEFAULT_RECIPE).filter(issue => issue.severity === 'error')).toEqual([]);
+  });
+
+  it("accepts other cluster recipes", () => {
+    const recipe: ClusterRecipe = { stitchKind: 'hdc', stitchesPerCluster: 2, cornerChains: 3, sideChains: 2 };
+    expect(codes(compile('granny', 5, recipe), recipe)).toEqual([]);
+  });
+
+  it("reports rounds stored out of order", () => {
+    const rounds = compile();
+    [rounds[1], rounds[2]] = [rounds[2], rounds[1]];
+    expect(codes(rounds)).toContain('round-order');
+  });
+
+  it("reports a group that is not worked into anything", () => {
+    const rounds = compile();
+    delete rounds[2].sides[0].clusters[0].anchorRef;
+    expect(codes(rounds)).toContain('missing-anchor-ref');
+  });
+
+  it("reports a group worked into a space that does not exist", () => {
+    const rounds = compile();
+    rounds[2].sides[1].clusters[0].anchorRef!.slotIndex = 99;
+    const issue = validateRounds(rounds, DEFAULT_RECIPE).find(issue => issue.code === 'missing-anchor');
+    expect(issue).toMatchObject({ severity: 'error', roundId: 2, side: 1 });
+    expect(issue!.message).toBe("Group 1 on side 2 points to space 99 on side 2 of round 1, which does not exist.");
+  });
+
+  it("reports a round that skips a space and adds too few groups", () => {
+    const rounds = compile();
+    rounds[3].sides[0].clusters.splice(1, 1);
+    const issues = validateRounds(rounds, DEFAULT_RECIPE);
+    expect(issues.map(issue => issue.code)).toEqual(expect.arrayContaining(['unused-space', 'uneven-sides', 'progression']));
+    // The round is reported with the issue, not repeated in its message.
+    expect(issues.find(issue => issue.code === 'progression')).toMatchObject({ roundId: 3, message: "Adds 3 groups; a round with 4 corners should add 4." });
+  });
+
+  it("reports a corner without its chains", () => {
+    const rounds = compile();
+    rounds[2].sides[3].cornerChains = [];
+    expect(codes(rounds)).toContain('missing-corner');
+  });
+
+  it("reports geometry that could not be placed", () => {
+    const rounds = compile();
+    rounds[1].sides[0].clusters[0].stitches[0].pos = { x: NaN, y: 0 };
+    expect(codes(rounds)).toContain('bad-geometry');
+  });
+
+  it("warns about recipes that will not lie flat", () => {
+    const recipe: ClusterRecipe = { stitchKind: 'sc', stitchesPerCluster: 2, cornerChains: 4, sideChains: 3 };
+    expect(codes(compile('granny', 4, recipe), recipe)).toEqual(expect.arrayContaining(['long-corner-chains', 'long-side-chains']));
+    const puff: ClusterRecipe = { ...DEFAULT_RECIPE, stitchKind: 'puff' };
+    expect(codes(compile('solid-granny', 4, puff), puff)).toContain('solid-bulky');
+  });
+
+  it("reports recipe warnings for the whole motif, not a round", () => {
+    const recipe: ClusterRecipe = { stitchKind: 'sc', stitchesPerCluster: 2, cornerChains: 4, sideChains: 3 };
+    const issues = validateRounds(compile('granny', 4, recipe), recipe).filter(issue => issue.code.startsWith('long-'));
+    expect(issues).toHaveLength(2);
+    for (const issue of issues) expect(issue.roundId).toBeUndefined();
+  });
+});
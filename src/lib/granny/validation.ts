@@ -0,0 +1,127 @@
+import { type Vec2, type SideIndex, type Round, STITCH_DEFS, type ClusterRecipe, stitchCount } from "./model";
+import { solidCornerSize } from "./rounds";
+import { totalClusters, totalStitches } from "./instructions";
+
+// ====== Pattern Validation ======
+// Checks that compiled rounds fit together, so a custom configuration that cannot
+// be crocheted is reported instead of silently drawn.
+type IssueSeverity = 'error' | 'warning';
+
+interface PatternIssue {
+  severity: IssueSeverity;
+  code: string; // Stable identifier, e.g. 'missing-anchor'
+  roundId?: number; // Missing for recipe choices, which affect every round
+  side?: SideIndex;
+  message: string;
+}
+
+const isFinitePos = (pos: Vec2) => Number.isFinite(pos.x) && Number.isFinite(pos.y);
+
+export function validateRounds(rounds: Round[], recipe: ClusterRecipe): PatternIssue[] {
+  const issues: PatternIssue[] = [];
+  const report = (severity: IssueSeverity, code: string, roundId: number | undefined, message: string, side?: SideIndex) => {
+    issues.push({ severity, code, roundId, side, message });
+  };
+
+  rounds.forEach((round, index) => {
+    if (round.id !== index) {
+      report('error', 'round-order', round.id, `Stored in position ${index}.`);
+    }
+    if (index === 0) return; // The foundation ring or chain has nothing to anchor to
+    const prev = rounds[index - 1];
+    const n = round.id;
+
+    // Every cluster must be worked into an existing anchor of the previous round.
+    const used = new Set<string>();
+    round.sides.forEach(side => side.clusters.forEach((cluster, j) => {
+      const group = `Group ${j + 1} on side ${side.side + 1}`;
+      if (cluster.stitches.length === 0) {
+        report('error', 'empty-cluster', n, `${group} has no stitches.`, side.side);
+      }
+      if ([...cluster.stitches, { pos: cluster.centerPos }].some(stitch => !isFinitePos(stitch.pos))) {
+        report('error', 'bad-geometry', n, `${group} could not be placed on the chart.`, side.side);
+      }
+      const ref = cluster.anchorRef;
+      if (!ref) {
+        report('error', 'missing-anchor-ref', n, `${group} is not worked into anything.`, side.side);
+        return;
+      }
+      if (ref.roundId !== prev.id) {
+        report('error', 'anchor-round', n, `${group} is worked into round ${ref.roundId} instead of round ${prev.id}.`, side.side);
+        return;
+      }
+      const anchor = prev.sides[ref.side]?.anchorsOnThisSide[ref.slotIndex];
+      if (!anchor) {
+        report('error', 'missing-anchor', n, `${group} points to space ${ref.slotIndex} on side ${ref.side + 1} of round ${prev.id}, which does not exist.`, side.side);
+        return;
+      }
+      if (anchor.type !== ref.type) {
+        report('warning', 'anchor-type', n, `${group} expects a ${ref.type} but finds a ${anchor.type}.`, side.side);
+      }
+      used.add(`${ref.side}:${ref.slotIndex}`);
+    }));
+
+    // Spaces left empty. A side's last space is the same as the next side's first one.
+    const sideCount = prev.sides.length;
+    prev.sides.forEach(side => {
+      const last = side.anchorsOnThisSide.length - 1;
+      side.anchorsOnThisSide.forEach((anchor, slotIndex) => {
+        const twinUsed = (slotIndex === 0 && used.has(`${(side.side + sideCount - 1) % sideCount}:${prev.sides[(side.side + sideCount - 1) % sideCount].anchorsOnThisSide.length - 1}`))
+          || (slotIndex === last && used.has(`${(side.side + 1) % sideCount}:0`));
+        if (!used.has(`${side.side}:${slotIndex}`) && !twinUsed) {
+          report('warning', 'unused-space', n, `Skips a ${anchor.type} on side ${side.side + 1} of round ${prev.id}.`, side.side);
+        }
+      });
+    });
+
+    // Corners need their chain spaces, and every side of a polygon needs its corner groups.
+    if (round.type === 'polygon' || round.type === 'transition') {
+      round.sides.forEach(side => {
+        if (side.cornerChains.length === 0) {
+          report('error', 'missing-corner', n, `Side ${side.side + 1} has no corner chains.`, side.side);
+        }
+        if (side.clusters.length === 0) {
+          report('error', 'empty-side', n, `Side ${side.side + 1} has no groups.`, side.side);
+        }
+      });
+
+      // Opposite sides of a rectangle may differ from their neighbours, but not from each other.
+      const counts = round.sides.map(side => side.clusters.length);
+      const even = counts.every(count => count === counts[0])
+        || (counts.length === 4 && counts[0] === counts[2] && counts[1] === counts[3] && prev.type !== 'circle');
+      if (!even) {
+        report('warning', 'uneven-sides', n, `The sides have ${counts.join("/")} groups, so the motif will not lie square.`);
+      }
+    }
+
+    // Stitch counts must grow by the expected amount from one round to the next.
+    if (round.style === prev.style && round.type === prev.type && (round.type === 'polygon' || round.type === 'circle')) {
+      if (round.style === 'open') {
+        const growth = totalClusters(round) - totalClusters(prev);
+        if (growth !== round.sides.length) {
+          report('error', 'progression', n, `Adds ${growth} groups; a round with ${round.sides.length} ${round.type === 'circle' ? "increases" : "corners"} should add ${round.sides.length}.`);
+        }
+      } else if (round.style === 'solid') {
+        const growth = totalStitches(round) - totalStitches(prev);
+        const expected = round.sides.length * 2 * solidCornerSize(recipe);
+        if (growth !== expected) {
+          report('error', 'progression', n, `Adds ${growth} stitches; it should add ${expected}.`);
+        }
+      }
+    }
+  });
+
+  // Recipe choices that can be worked, but will not give a flat motif.
+  const kind = recipe.stitchKind;
+  if (recipe.cornerChains > STITCH_DEFS[kind].turningChains + 1) {
+    report('warning', 'long-corner-chains', undefined, `Chain-${recipe.cornerChains} corners are much longer than a ${STITCH_DEFS[kind].abbr} is tall, so the corners will flare.`);
+  }
+  if (recipe.sideChains > recipe.stitchesPerCluster) {
+    report('warning', 'long-side-chains', undefined, `Chain-${recipe.sideChains} spaces are wider than a group of ${stitchCount(recipe.stitchesPerCluster, kind)}, which leaves gaps between the groups.`);
+  }
+  if (rounds.some(round => round.style === 'solid') && (kind === 'puff' || kind === 'popcorn')) {
+    report('warning', 'solid-bulky', undefined, `A ${STITCH_DEFS[kind].name.toLowerCase()} in every stitch is too bulky to lie flat in a solid granny.`);
+  }
+
+  return issues;
+}
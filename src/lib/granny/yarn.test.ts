@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { type Round, DEFAULT_RECIPE } from "./model";
+import { DEFAULT_MOTIF, buildRounds, planRounds } from "./rounds";
+import { DEFAULT_YARN_PER_STITCH, YARN_TAIL_CM, calibrateYarn, estimateYarn } from "./yarn";
+
+const compile = (n: number): Round[] =>
+  buildRounds(planRounds(DEFAULT_MOTIF, n, 24, 24), { x: 0, y: 0 }, 24, 24, DEFAULT_RECIPE, false);
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe("estimateYarn", () => {
+  it("counts every stitch of a round, beginning chains and joins included", () => {
+    const { rounds } = estimateYarn(compile(3), DEFAULT_YARN_PER_STITCH, []);
+    // Ring: 4 ch and a sl st. Round 1: 8 corner ch, 11 dc after the ch-3 and a joining sl st.
+    expect(rounds.slice(0, 2)).toEqual([
+      { roundId: 0, stitches: 5, length: 4 * 2.5 + 2.5 },
+      { roundId: 1, stitches: 23, length: 8 * 2.5 + 11 * 10 + 3 * 2.5 + 2.5 },
+    ]);
+  });
+
+  it("leaves out tails when no colours are picked", () => {
+    const estimate = estimateYarn(compile(3), DEFAULT_YARN_PER_STITCH, []);
+    expect(estimate.colors).toEqual([]);
+    expect(estimate.total).toBe(sum(estimate.rounds.map(round => round.length)));
+  });
+
+  it("adds a tail at both ends of every piece of yarn", () => {
+    const estimate = estimateYarn(compile(3), DEFAULT_YARN_PER_STITCH, ['a', 'a', 'b', 'a']);
+    const [ring, one, two, three] = estimate.rounds.map(round => round.length);
+    // Colour a is one piece for the ring and round 1, another for round 3.
+    expect(estimate.colors).toEqual([
+      { color: 'a', rounds: [0, 1, 3], ends: 4, length: ring + one + three + 4 * YARN_TAIL_CM },
+      { color: 'b', rounds: [2], ends: 2, length: two + 2 * YARN_TAIL_CM },
+    ]);
+    expect(estimate.total).toBe(sum(estimate.rounds.map(round => round.length)) + 6 * YARN_TAIL_CM);
+  });
+
+  it("counts a painted group as a piece of its own colour", () => {
+    const rounds = compile(3);
+    const painted = rounds[2].sides[0].clusters[0];
+    const estimate = estimateYarn(rounds, DEFAULT_YARN_PER_STITCH, Array(4).fill('a'), { [painted.id]: 'c' });
+    expect(estimate.colors.map(color => [color.color, color.ends])).toEqual([['a', 2], ['c', 2]]);
+    expect(estimate.colors[1].length).toBe(3 * 10 + 2 * YARN_TAIL_CM);
+  });
+});
+
+describe("calibrateYarn", () => {
+  it("scales every stitch by what the swatch used", () => {
+    const calibrated = calibrateYarn(DEFAULT_YARN_PER_STITCH, 'dc', 20, 300);
+    expect(calibrated.dc).toBe(15);
+    expect(calibrated.chain).toBe(3.75);
+    expect(calibrated.puff).toBe(45);
+  });
+
+  it("keeps the defaults for an empty swatch", () => {
+    expect(calibrateYarn(DEFAULT_YARN_PER_STITCH, 'dc', 0, 300)).toBe(DEFAULT_YARN_PER_STITCH);
+    expect(calibrateYarn(DEFAULT_YARN_PER_STITCH, 'dc', 20, NaN)).toBe(DEFAULT_YARN_PER_STITCH);
+  });
+});
@@ -0,0 +1,113 @@
+import { type StitchKind, type Round, STITCH_DEFS } from "./model";
+import { ringChainCount } from "./geometry";
+
+// ====== Yarn Estimate ======
+// Yarn used by one stitch of each kind, in centimetres, for worsted weight yarn on a 5 mm hook.
+export type YarnPerStitch = Record<StitchKind, number>;
+
+export const DEFAULT_YARN_PER_STITCH: YarnPerStitch = {
+  chain: 2.5, slst: 2.5, sc: 6, hdc: 8, dc: 10, tr: 13, dtr: 16, picot: 10, puff: 30, popcorn: 45, crab: 6,
+};
+
+// Tail left at every join and fasten-off, to weave in.
+export const YARN_TAIL_CM = 15;
+
+// Scales every stitch by what a swatch really used: `stitches` stitches of `kind` took `lengthCm` of yarn.
+export function calibrateYarn(base: YarnPerStitch, kind: StitchKind, stitches: number, lengthCm: number): YarnPerStitch {
+  if (!(stitches > 0 && lengthCm > 0 && base[kind] > 0)) return base;
+  const factor = lengthCm / stitches / base[kind];
+  return Object.fromEntries(Object.entries(base).map(([k, cm]) => [k, cm * factor])) as YarnPerStitch;
+}
+
+// Every stitch worked in one round, chains included, each paired with the cluster it belongs to (if any).
+function roundStitchKinds(round: Round, rounds: Round[]): { kind: StitchKind; clusterId?: string }[] {
+  if (round.id === 0) {
+    return round.foundation
+      ? round.foundation.map(stitch => ({ kind: stitch.kind }))
+      : [...Array.from({ length: ringChainCount(round.sides.length) }, () => ({ kind: 'chain' as StitchKind })), { kind: 'slst' }];
+  }
+  const stitches: { kind: StitchKind; clusterId?: string }[] = [];
+  round.sides.forEach(side => {
+    side.cornerChains.forEach(stitch => stitches.push({ kind: stitch.kind }));
+    side.spaceChains.forEach(stitch => stitches.push({ kind: stitch.kind }));
+    side.clusters.forEach(cluster => cluster.stitches.forEach(stitch => stitches.push({ kind: stitch.kind, clusterId: cluster.id })));
+  });
+  // The beginning chain stands in for the first stitch, or is worked on top of it.
+  const first = round.sides[1]?.clusters[0];
+  const firstKind = first?.stitches[0]?.kind;
+  if (first && firstKind) {
+    const def = STITCH_DEFS[firstKind];
+    if (def.chainCountsAsStitch) stitches.splice(stitches.findIndex(stitch => stitch.clusterId === first.id), 1);
+    for (let i = 0; i < def.turningChains; i++) stitches.push({ kind: 'chain', clusterId: first.id });
+  }
+  // Slip stitches over the first group of the previous round, to reach the space the round starts in.
+  if (round.id > 1) {
+    const slips = rounds[round.id - 1].sides[1]?.clusters[0]?.stitches.length ?? 0;
+    for (let i = 0; i < slips; i++) stitches.push({ kind: 'slst' });
+  }
+  if (round.join) stitches.push({ kind: round.join.kind });
+  return stitches;
+}
+
+interface RoundYarn {
+  roundId: number;
+  stitches: number;
+  length: number; // cm, tails not included
+}
+
+interface ColorYarn {
+  color: string;
+  rounds: number[];
+  ends: number; // Joins and fasten-offs, each leaving a tail
+  length: number; // cm, tails included
+}
+
+interface YarnEstimate {
+  rounds: RoundYarn[];
+  colors: ColorYarn[];
+  total: number; // cm for one motif
+}
+
+// Yarn per round and per colour. Painted groups use their own colour; a round whose colour changes
+// from the previous one starts a new piece of yarn, and every piece leaves a tail at each end.
+export function estimateYarn(rounds: Round[], yarnPerStitch: YarnPerStitch, roundColors: string[], clusterColors: Record<string, string> = {}): YarnEstimate {
+  const colors = new Map<string, ColorYarn>();
+  const add = (color: string, roundId: number, length: number, ends: number) => {
+    const entry = colors.get(color) ?? { color, rounds: [], ends: 0, length: 0 };
+    if (!entry.rounds.includes(roundId)) entry.rounds.push(roundId);
+    entry.length += length + ends * YARN_TAIL_CM;
+    entry.ends += ends;
+    colors.set(color, entry);
+  };
+
+  const roundYarn = rounds.map((round): RoundYarn => {
+    const stitches = roundStitchKinds(round, rounds);
+    const color = roundColors[round.id];
+    const pieces = new Map<string, number>();
+    stitches.forEach(({ kind, clusterId }) => {
+      const stitchColor = (clusterId && clusterColors[clusterId]) || color;
+      pieces.set(stitchColor, (pieces.get(stitchColor) ?? 0) + yarnPerStitch[kind]);
+    });
+    if (color !== undefined) {
+      pieces.forEach((length, stitchColor) => {
+        // Carried colours are joined and fastened off within the round.
+        const joined = stitchColor !== color || roundColors[round.id - 1] !== color;
+        const fastened = stitchColor !== color || roundColors[round.id + 1] !== color;
+        add(stitchColor, round.id, length, (joined ? 1 : 0) + (fastened ? 1 : 0));
+      });
+    }
+    const length = [...pieces.values()].reduce((sum, cm) => sum + cm, 0);
+    return { roundId: round.id, stitches: stitches.length, length };
+  });
+
+  // Without colours there are no pieces of yarn to count tails for.
+  const total = colors.size > 0
+    ? [...colors.values()].reduce((sum, entry) => sum + entry.length, 0)
+    : roundYarn.reduce((sum, entry) => sum + entry.length, 0);
+  return { rounds: roundYarn, colors: [...colors.values()], total };
+}
+
+// e.g. "12.3 m / 13.5 yd"
+export function formatYarnLength(cm: number): string {
+  return `${(cm / 100).toFixed(1)} m / ${(cm / 91.44).toFixed(1)} yd`;
+}